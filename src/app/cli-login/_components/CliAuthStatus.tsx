@@ -5,10 +5,11 @@ import { CliLoginState } from '../_types/cli-login';
 
 interface CliAuthStatusProps {
   state: CliLoginState;
+  onConfirmDevice?: () => void;
 }
 
-export function CliAuthStatus({ state }: CliAuthStatusProps) {
-  const { message, isComplete, isLoading, error } = state;
+export function CliAuthStatus({ state, onConfirmDevice }: CliAuthStatusProps) {
+  const { message, isComplete, isLoading, error, deviceCode } = state;
 
   return (
     <div className="max-w-md w-full text-center p-8">
@@ -25,6 +26,21 @@ export function CliAuthStatus({ state }: CliAuthStatusProps) {
           </div>
         )}
         
+        {deviceCode && !isComplete && (
+          <div className="mt-6">
+            <p className="font-mono text-2xl tracking-widest text-gray-900">{deviceCode}</p>
+            {onConfirmDevice && !isLoading && (
+              <button
+                type="button"
+                onClick={onConfirmDevice}
+                className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                Connect CLI
+              </button>
+            )}
+          </div>
+        )}
+
         {error && (
           <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md text-sm">
             {error}
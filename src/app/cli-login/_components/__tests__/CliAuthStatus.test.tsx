@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { CliAuthStatus } from '../CliAuthStatus';
 import { CliLoginState } from '../../_types';
@@ -87,4 +87,20 @@ describe('CliAuthStatus', () => {
 
     expect(screen.getByText(customMessage)).toBeInTheDocument();
   });
+
+  it('shows the device code and confirms it on click', () => {
+    const onConfirmDevice = jest.fn();
+    const state: CliLoginState = {
+      message: 'Confirm that this code matches the one shown in your terminal.',
+      isComplete: false,
+      isLoading: false,
+      deviceCode: 'BCDF-2345',
+    };
+
+    render(<CliAuthStatus state={state} onConfirmDevice={onConfirmDevice} />);
+
+    expect(screen.getByText('BCDF-2345')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Connect CLI' }));
+    expect(onConfirmDevice).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,24 +1,83 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { supabase } from '@/supabase';
 import { useAuth } from '@/hooks/useAuth';
 import axios from 'axios';
-import { CliLoginState, CliTokenExchangeResponse } from '../_types/cli-login';
+import { CliLoginState, CliTokenExchangeResponse, CliTokenRequest } from '../_types/cli-login';
+
+// Credentials handed to the CLI: the long-lived custom token plus a session started for the CLI
+// alone, so this browser's own refresh token is never shared
+async function buildCliCredentials(): Promise<CliTokenRequest> {
+  // Call the Supabase Edge Function to exchange ID token for Custom Token
+  const { data, error } = await supabase.functions.invoke('exchange-id-for-token');
+  if (error) throw error;
+  const { customToken, session } = data as CliTokenExchangeResponse;
+
+  return {
+    token: customToken,
+    accessToken: session.accessToken,
+    refreshToken: session.refreshToken,
+    expiresAt: session.expiresAt,
+  };
+}
 
 export function useCliAuthentication() {
   const { user } = useAuth();
   const searchParams = useSearchParams();
+  // Set for `toknxr login --device`: the code shown in the user's terminal
+  const deviceCode = searchParams.get('code') || undefined;
   const [state, setState] = useState<CliLoginState>({
     message: 'Please log in to connect your account to the TokNxr CLI.',
     isComplete: false,
     isLoading: false,
+    deviceCode,
   });
 
+  useEffect(() => {
+    if (user && deviceCode && !state.isComplete && !state.isLoading) {
+      setState(prev =>
+        prev.error
+          ? prev
+          : { ...prev, message: 'Confirm that this code matches the one shown in your terminal.' }
+      );
+    }
+  }, [user, deviceCode, state.isComplete, state.isLoading]);
+
+  /**
+   * Approve a device login after the user has compared the codes
+   */
+  const confirmDevice = useCallback(async () => {
+    if (!deviceCode) return;
+    setState(prev => ({ ...prev, message: 'Connecting your CLI...', isLoading: true, error: undefined }));
+    try {
+      // The server starts the CLI's session itself; nothing from this browser is passed on
+      const { error } = await supabase.functions.invoke('cli-device-auth', {
+        body: { action: 'approve', userCode: deviceCode },
+      });
+      if (error) throw error;
+
+      setState(prev => ({
+        ...prev,
+        message: 'CLI authentication successful! Return to your terminal.',
+        isComplete: true,
+        isLoading: false,
+      }));
+    } catch (error) {
+      console.error('CLI device approval error:', error);
+      setState(prev => ({
+        ...prev,
+        message: 'Error: This code is invalid or has expired. Run `toknxr login --device` again.',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        isLoading: false,
+      }));
+    }
+  }, [deviceCode]);
+
   useEffect(() => {
     const sendTokenToCli = async () => {
-      if (user && !state.isComplete && !state.isLoading) {
+      if (user && !deviceCode && !state.isComplete && !state.isLoading) {
         setState(prev => ({
           ...prev,
           message: 'Login successful! Exchanging token for CLI...',
@@ -26,24 +85,21 @@ export function useCliAuthentication() {
         }));
 
         const port = searchParams.get('port');
-        if (!port) {
+        const loginState = searchParams.get('state');
+        if (!port || !/^\d+$/.test(port) || !loginState) {
           setState(prev => ({
             ...prev,
-            message: 'Error: CLI callback port not found.',
-            error: 'Missing port parameter',
+            message: 'Error: This login link is incomplete. Run `toknxr login` again.',
+            error: !port ? 'Missing port parameter' : 'Missing or invalid login parameters',
             isLoading: false,
           }));
           return;
         }
 
         try {
-          // Call the Supabase Edge Function to exchange ID token for Custom Token
-          const { data, error } = await supabase.functions.invoke('exchange-id-for-token');
-          if (error) throw error;
-          const customToken = (data as CliTokenExchangeResponse).customToken;
-
-          // Send the Custom Token to the CLI's local server
-          await axios.post(`http://localhost:${port}/token`, { token: customToken });
+          // Send the Custom Token and the CLI's own session to the CLI's local server
+          const payload = { ...(await buildCliCredentials()), state: loginState };
+          await axios.post(`http://127.0.0.1:${port}/token`, payload);
           
           setState(prev => ({
             ...prev,
@@ -64,11 +120,12 @@ export function useCliAuthentication() {
     };
 
     sendTokenToCli();
-  }, [user, searchParams, state.isComplete, state.isLoading]);
+  }, [user, deviceCode, searchParams, state.isComplete, state.isLoading]);
 
   return {
     ...state,
     user,
     hasUser: !!user,
+    confirmDevice,
   };
 }
\ No newline at end of file
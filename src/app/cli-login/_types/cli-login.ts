@@ -3,12 +3,25 @@ export interface CliLoginState {
   isComplete: boolean;
   isLoading: boolean;
   error?: string;
+  deviceCode?: string; // user code from `toknxr login --device`, awaiting confirmation
 }
 
 export interface CliTokenExchangeResponse {
   customToken: string;
+  // Session started for the CLI alone, separate from the browser's
+  session: {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt?: number;
+  };
 }
 
 export interface CliTokenRequest {
   token: string;
+  // The CLI's own Supabase session, so it can refresh its access token
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  // Nonce from the CLI's login URL; the CLI ignores callbacks without it
+  state?: string;
 }
\ No newline at end of file
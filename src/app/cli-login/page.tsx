@@ -9,7 +9,10 @@ export default function CliLoginPage() {
 
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-      <CliAuthStatus state={authState} />
+      <CliAuthStatus
+        state={authState}
+        onConfirmDevice={authState.hasUser ? authState.confirmDevice : undefined}
+      />
       <CliAuthModal showModal={!authState.hasUser && !authState.isComplete} />
     </div>
   );
@@ -0,0 +1,35 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// A Supabase session of the CLI's own, so the browser's refresh token never leaves the browser
+
+export interface CliSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt?: number;
+}
+
+const withoutPersistence = { auth: { persistSession: false, autoRefreshToken: false } };
+
+/**
+ * Sign the user in again on the server: a one-time magic link is generated with the service
+ * role and redeemed at once, which starts a new session with its own refresh token
+ */
+export async function createCliSession(email: string | undefined): Promise<CliSession> {
+  if (!email) throw new Error('The account has no email address to start a CLI session with');
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, withoutPersistence);
+  const { data: link, error: linkError } = await admin.auth.admin.generateLink({ type: 'magiclink', email });
+  if (linkError) throw linkError;
+
+  const anon = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, withoutPersistence);
+  const { data, error } = await anon.auth.verifyOtp({ type: 'magiclink', token_hash: link.properties.hashed_token });
+  if (error) throw error;
+  if (!data.session) throw new Error('No session was started for the CLI');
+
+  return {
+    accessToken: data.session.access_token,
+    refreshToken: data.session.refresh_token,
+    expiresAt: data.session.expires_at,
+  };
+}
@@ -0,0 +1,168 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createCliSession } from '../_shared/cli-session.ts';
+
+// Device-code login for headless machines (`toknxr login --device`):
+//   start   - the CLI gets a secret device code and a short user code
+//   approve - a signed-in browser confirms the user code; a new session is started for the CLI
+//   poll    - the CLI exchanges its device code for those credentials, once
+
+const DEVICE_CODE_TTL_SECONDS = 10 * 60;
+const POLL_INTERVAL_SECONDS = 5;
+const START_ATTEMPTS = 5; // fresh user codes to try when one is already taken
+const UNIQUE_VIOLATION = '23505';
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ23456789'; // no vowels or look-alike characters
+
+interface DeviceAuthRequest {
+  action: 'start' | 'poll' | 'approve';
+  deviceCode?: string;
+  userCode?: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const randomUserCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const code = Array.from(bytes, b => USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length]).join('');
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
+
+const normalizeUserCode = (code: string): string => {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return `${compact.slice(0, 4)}-${compact.slice(4)}`;
+};
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const admin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body: DeviceAuthRequest = await req.json();
+
+    if (body.action === 'start') {
+      // Drop requests nobody completed first, so their user codes can be handed out again
+      await admin.from('cli_device_codes').delete().lt('expires_at', new Date().toISOString());
+
+      for (let attempt = 1; ; attempt++) {
+        const deviceCode = crypto.randomUUID() + crypto.randomUUID();
+        const userCode = randomUserCode();
+        const { error } = await admin.from('cli_device_codes').insert({
+          device_code_hash: await sha256(deviceCode),
+          user_code: userCode,
+          expires_at: new Date(Date.now() + DEVICE_CODE_TTL_SECONDS * 1000).toISOString(),
+        });
+        if (!error) {
+          return json({ deviceCode, userCode, expiresIn: DEVICE_CODE_TTL_SECONDS, interval: POLL_INTERVAL_SECONDS });
+        }
+        if (error.code !== UNIQUE_VIOLATION || attempt === START_ATTEMPTS) throw error;
+      }
+    }
+
+    if (body.action === 'poll') {
+      if (!body.deviceCode) return json({ error: 'Missing deviceCode' }, 400);
+      const deviceCodeHash = await sha256(body.deviceCode);
+
+      // Claiming deletes the approved row in the same statement, so concurrent polls cannot
+      // both receive the credentials
+      const { data: claimed, error } = await admin
+        .from('cli_device_codes')
+        .delete()
+        .eq('device_code_hash', deviceCodeHash)
+        .eq('status', 'approved')
+        .gt('expires_at', new Date().toISOString())
+        .select('credentials');
+      if (error) throw error;
+      if (claimed && claimed.length > 0) {
+        return json({ status: 'approved', credentials: claimed[0].credentials });
+      }
+
+      const { data: row } = await admin
+        .from('cli_device_codes')
+        .select('id, expires_at')
+        .eq('device_code_hash', deviceCodeHash)
+        .maybeSingle();
+      if (!row || new Date(row.expires_at) < new Date()) {
+        if (row) await admin.from('cli_device_codes').delete().eq('id', row.id);
+        return json({ status: 'expired' });
+      }
+      return json({ status: 'pending' });
+    }
+
+    if (body.action === 'approve') {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return json({ error: 'Unauthorized' }, 401);
+      }
+      const {
+        data: { user },
+        error: authError,
+      } = await admin.auth.getUser(authHeader.replace('Bearer ', ''));
+      if (authError || !user) {
+        return json({ error: 'Invalid token' }, 401);
+      }
+
+      if (!body.userCode) {
+        return json({ error: 'Missing userCode' }, 400);
+      }
+      const userCode = normalizeUserCode(body.userCode);
+
+      // Only start a session for a code that is still waiting, not for guesses
+      const { data: pending } = await admin
+        .from('cli_device_codes')
+        .select('id')
+        .eq('user_code', userCode)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+      if (!pending) {
+        return json({ error: 'Code not found or expired' }, 404);
+      }
+
+      const credentials = await createCliSession(user.email);
+      const { data: updated, error } = await admin
+        .from('cli_device_codes')
+        .update({ status: 'approved', approved_by: user.id, credentials })
+        .eq('id', pending.id)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .select('id');
+      if (error) throw error;
+      if (!updated || updated.length === 0) {
+        // Approved or expired meanwhile; end the session nobody will collect
+        await admin.auth.admin.signOut(credentials.accessToken, 'local');
+        return json({ error: 'Code not found or expired' }, 404);
+      }
+
+      return json({ success: true });
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
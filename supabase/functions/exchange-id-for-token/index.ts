@@ -1,5 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { create, getNumericDate, Header } from 'https://deno.land/x/djwt/mod.ts';
+import { createCliSession } from '../_shared/cli-session.ts';
 
 Deno.serve(async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
@@ -93,8 +94,10 @@ Deno.serve(async (req: Request): Promise<Response> => {
 
     // Create JWT using the imported key
     const customToken = await create(header, payload, key);
+    // Refreshable session for the CLI, separate from the one the browser signed in with
+    const session = await createCliSession(user.email);
 
-    return new Response(JSON.stringify({ customToken }), {
+    return new Response(JSON.stringify({ customToken, session }), {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
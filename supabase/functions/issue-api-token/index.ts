@@ -0,0 +1,112 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { create, getNumericDate, Header } from 'https://deno.land/x/djwt/mod.ts';
+
+// Tokens for CI (`toknxr api-token:create`, used via TOKNXR_API_TOKEN). They act as the user with
+// full access, like a session; the project is only the default `toknxr sync` uploads to and is not
+// enforced. They cannot be revoked before they expire, hence the short cap.
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+interface IssueApiTokenRequest {
+  projectId: string;
+  days?: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+
+Deno.serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // Get authentication token from header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+    });
+
+    // Verify authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return json({ error: 'Invalid token' }, 401);
+    }
+
+    const body: IssueApiTokenRequest = await req.json();
+    if (!body.projectId) {
+      return json({ error: 'Missing projectId' }, 400);
+    }
+    const days = Math.min(Math.max(Math.round(body.days ?? DEFAULT_DAYS), 1), MAX_DAYS);
+
+    // Row level security only returns projects in the caller's organization
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, name')
+      .eq('id', body.projectId)
+      .maybeSingle();
+    if (!project) {
+      return json({ error: 'Project not found' }, 404);
+    }
+
+    const expiresAt = getNumericDate(60 * 60 * 24 * days);
+    const payload = {
+      aud: 'authenticated',
+      exp: expiresAt,
+      sub: user.id,
+      email: user.email,
+      app_metadata: {
+        provider: 'toknxr-api-token',
+        providers: ['toknxr-api-token'],
+        default_project_id: project.id,
+      },
+      user_metadata: {
+        source: 'api_token',
+        original_user_id: user.id,
+      },
+      role: 'authenticated',
+    };
+
+    // Import the service key for signing
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(supabaseServiceKey),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+    const header: Header = { alg: 'HS256', typ: 'JWT' };
+    const apiToken = await create(header, payload, key);
+
+    return json({ token: apiToken, expiresAt, project });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,16 @@
+-- Idempotency key for interactions uploaded by `toknxr sync`.
+-- The CLI upserts on request_id so re-running a sync never duplicates rows.
+ALTER TABLE interactions ADD COLUMN request_id TEXT;
+
+CREATE UNIQUE INDEX idx_interactions_request_id ON interactions(request_id);
+
+-- Upserts need insert and update rights on interactions in the user's projects
+CREATE POLICY "Users can insert interactions into their projects" ON interactions FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM projects WHERE projects.id = interactions.project_id AND
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.organization_id = projects.organization_id AND profiles.id = auth.uid()))
+);
+
+CREATE POLICY "Users can update interactions in their projects" ON interactions FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM projects WHERE projects.id = interactions.project_id AND
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.organization_id = projects.organization_id AND profiles.id = auth.uid()))
+);
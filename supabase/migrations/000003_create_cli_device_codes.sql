@@ -0,0 +1,16 @@
+-- Pending `toknxr login --device` requests.
+-- Only the cli-device-auth edge function (service role) reads or writes this table.
+CREATE TABLE cli_device_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  device_code_hash TEXT UNIQUE NOT NULL, -- SHA-256 of the secret the CLI polls with
+  user_code TEXT UNIQUE NOT NULL, -- short code the user confirms in the browser
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved')),
+  approved_by UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  credentials JSONB, -- tokens handed to the CLI on its next poll, then deleted
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_cli_device_codes_expires_at ON cli_device_codes(expires_at);
+
+ALTER TABLE cli_device_codes ENABLE ROW LEVEL SECURITY;
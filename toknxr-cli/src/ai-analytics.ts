@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { hasInteractionLog, isFailedInteraction, readInteractionLog } from './interaction-log.js';
 import { HallucinationDetector, HallucinationDetection, HallucinationMetrics, BusinessImpactMetrics } from './hallucination-detector.js';
 
 export interface AIAnalyticsData {
@@ -21,6 +22,10 @@ export interface AIAnalyticsData {
   // Cost and usage
   costUSD: number;
   totalTokens: number;
+
+  // Attribution (set by the proxy)
+  user?: string;
+  team?: string;
 }
 
 export interface ProviderAnalytics {
@@ -29,6 +34,7 @@ export interface ProviderAnalytics {
   avgQualityScore: number;
   avgEffectivenessScore: number;
   businessImpact: BusinessImpactMetrics;
+  costByUser: Record<string, number>; // interactions without a user are grouped under 'unattributed'
 }
 
 export interface AggregatedAIAnalytics {
@@ -107,11 +113,11 @@ export class AIAnalytics {
    * Generate comprehensive analytics from interaction logs
    */
   generateAnalytics(): AggregatedAIAnalytics {
-    if (!fs.existsSync(this.logFilePath)) {
+    if (!hasInteractionLog(this.logFilePath)) {
       return this.getEmptyAnalytics();
     }
 
-    const fileContent = fs.readFileSync(this.logFilePath, 'utf8');
+    const fileContent = readInteractionLog(this.logFilePath);
     const lines = fileContent.trim().split('\n');
     const interactions: AIAnalyticsData[] = [];
 
@@ -183,12 +189,19 @@ export class AIAnalytics {
         totalCost / providerInteractions.length
       );
 
+      const costByUser: Record<string, number> = {};
+      providerInteractions.forEach(i => {
+        const user = i.user || 'unattributed';
+        costByUser[user] = (costByUser[user] || 0) + i.costUSD;
+      });
+
       providerComparison[provider] = {
         totalInteractions: providerInteractions.length,
         hallucinationRate: Math.round(providerHallucinationRate * 10) / 10,
         avgQualityScore: Math.round(avgQualityScore),
         avgEffectivenessScore: Math.round(avgEffectivenessScore),
-        businessImpact
+        businessImpact,
+        costByUser
       };
     });
 
@@ -383,10 +396,10 @@ export class AIAnalytics {
    * Get real-time hallucination rate for a specific provider
    */
   getProviderHallucinationRate(provider: string, hours: number = 24): number {
-    if (!fs.existsSync(this.logFilePath)) return 0;
+    if (!hasInteractionLog(this.logFilePath)) return 0;
 
     const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000);
-    const fileContent = fs.readFileSync(this.logFilePath, 'utf8');
+    const fileContent = readInteractionLog(this.logFilePath, { since: cutoffTime });
     const lines = fileContent.trim().split('\n');
 
     let providerInteractions = 0;
@@ -397,7 +410,7 @@ export class AIAnalytics {
         const interaction = JSON.parse(line);
         const interactionTime = new Date(interaction.timestamp);
 
-        if (interactionTime >= cutoffTime && interaction.provider === provider) {
+        if (interactionTime >= cutoffTime && interaction.provider === provider && !isFailedInteraction(interaction)) {
           providerInteractions++;
           if (interaction.hallucinationDetection?.isLikelyHallucination) {
             providerHallucinations++;
@@ -0,0 +1,325 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile, spawn } from 'node:child_process';
+import axios from 'axios';
+import { sendMail } from './smtp.js';
+import { BudgetStatus, BudgetsPolicy, formatBudgetStatus, windowEnd, windowStart } from './policy.js';
+
+/**
+ * Budget alert delivery (`alerts` in toknxr.policy.json).
+ *
+ * Each channel gets the same alert: a list of budgets that crossed their warning
+ * threshold or limit. AlertLog remembers what was sent, so a threshold alerts
+ * once per budget window instead of on every request after it is crossed.
+ */
+
+export const ALERT_LOG_FILE = 'toknxr.alert-log.json';
+
+export type AlertLevel = 'warn' | 'exceeded';
+
+interface ChannelBase {
+  name?: string; // shown in `toknxr policy:test-alert` output (default: the type)
+  on?: AlertLevel[]; // which alerts to deliver (default: both)
+}
+
+export interface WebhookChannel extends ChannelBase {
+  type: 'webhook';
+  url: string; // receives the JSON alert
+  headers?: Record<string, string>;
+}
+
+export interface SlackChannel extends ChannelBase {
+  type: 'slack';
+  webhookUrl: string; // Slack (or Mattermost, Discord /slack, ...) incoming webhook
+}
+
+export interface EmailChannel extends ChannelBase {
+  type: 'email';
+  host: string;
+  port?: number;
+  secure?: boolean; // implicit TLS (default when port is 465); otherwise STARTTLS when offered
+  username?: string;
+  passwordEnvVar?: string; // environment variable holding the SMTP password
+  allowInsecureAuth?: boolean; // send the password even when the connection is not encrypted
+  from: string;
+  to: string | string[];
+}
+
+export interface DesktopChannel extends ChannelBase {
+  type: 'desktop';
+}
+
+export interface CommandChannel extends ChannelBase {
+  type: 'command';
+  command: string; // run in a shell with the alert as JSON on stdin
+  timeoutSeconds?: number;
+}
+
+export type AlertChannel = WebhookChannel | SlackChannel | EmailChannel | DesktopChannel | CommandChannel;
+
+export interface AlertBudget {
+  level: AlertLevel;
+  budget: string; // e.g. "user alice (daily)"
+  window: string;
+  spentUSD: number;
+  limitUSD: number;
+  percent: number;
+  resetsAt: string;
+}
+
+export interface BudgetAlert {
+  level: AlertLevel; // the most severe of `budgets`
+  subject: string;
+  text: string;
+  budgets: AlertBudget[];
+  requestId?: string;
+  timestamp: string;
+  test?: boolean;
+  totals?: { total: number; byProvider: Record<string, number> };
+  // Kept for webhook receivers written against the old payload
+  monthKey?: string;
+  breaches: string[];
+  warnings: string[];
+}
+
+export interface DeliveryResult {
+  channel: string;
+  ok: boolean;
+  skipped?: boolean; // the channel does not take alerts of this level
+  error?: string;
+}
+
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 10;
+const HTTP_TIMEOUT_MS = 5000;
+
+/**
+ * Configured channels, including the legacy top-level `webhookUrl`
+ */
+export function alertChannels(policy: BudgetsPolicy): AlertChannel[] {
+  const channels: AlertChannel[] = [];
+  if (policy.webhookUrl) channels.push({ type: 'webhook', name: 'webhookUrl', url: policy.webhookUrl });
+  return channels.concat(policy.alerts || []);
+}
+
+export const channelName = (channel: AlertChannel): string => channel.name || channel.type;
+
+/**
+ * An alert for budgets that are over a threshold; null when none are
+ */
+export function buildBudgetAlert(
+  statuses: BudgetStatus[],
+  extra: { requestId?: string; totals?: BudgetAlert['totals']; monthKey?: string; test?: boolean; now?: Date } = {}
+): BudgetAlert | null {
+  const now = extra.now || new Date();
+  const crossed = statuses.filter(status => status.state !== 'ok');
+  if (crossed.length === 0) return null;
+
+  const budgets = crossed.map(status => ({
+    level: status.state as AlertLevel,
+    budget: status.label,
+    window: status.rule.window,
+    spentUSD: status.spentUSD,
+    limitUSD: status.limitUSD,
+    percent: status.limitUSD > 0 ? Math.round((status.spentUSD / status.limitUSD) * 100) : 100,
+    resetsAt: windowEnd(status.rule.window, now).toISOString(),
+  }));
+  const level: AlertLevel = budgets.some(budget => budget.level === 'exceeded') ? 'exceeded' : 'warn';
+  const breaches = crossed.filter(status => status.state === 'exceeded').map(formatBudgetStatus);
+  const warnings = crossed.filter(status => status.state === 'warn').map(formatBudgetStatus);
+
+  const headline = level === 'exceeded' ? 'budget exceeded' : 'budget warning';
+  const subject = `${extra.test ? '[test] ' : ''}toknxr ${headline}: ${budgets.map(budget => budget.budget).join(', ')}`;
+  const text = [
+    ...budgets.map(
+      budget =>
+        `${budget.level === 'exceeded' ? 'EXCEEDED' : 'WARNING'} ${budget.budget}: $${budget.spentUSD.toFixed(2)} of ` +
+        `$${budget.limitUSD.toFixed(2)} (${budget.percent}%), resets ${budget.resetsAt}`
+    ),
+    ...(extra.requestId ? [`Request: ${extra.requestId}`] : []),
+    ...(extra.test ? ['This is a test alert sent by `toknxr policy:test-alert`.'] : []),
+  ].join('\n');
+
+  return {
+    level,
+    subject,
+    text,
+    budgets,
+    ...(extra.requestId ? { requestId: extra.requestId } : {}),
+    timestamp: now.toISOString(),
+    ...(extra.test ? { test: true } : {}),
+    ...(extra.totals ? { totals: extra.totals } : {}),
+    ...(extra.monthKey ? { monthKey: extra.monthKey } : {}),
+    breaches,
+    warnings,
+  };
+}
+
+const runFile = (file: string, args: string[], env: NodeJS.ProcessEnv = process.env): Promise<void> =>
+  new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: HTTP_TIMEOUT_MS, env }, error => (error ? reject(error) : resolve()));
+  });
+
+/**
+ * Title and message go through argv/env rather than into the script text
+ */
+function notifyDesktop(alert: BudgetAlert): Promise<void> {
+  const title = alert.subject;
+  const message = alert.text.split('\n')[0];
+  if (process.platform === 'darwin') {
+    return runFile('osascript', [
+      '-e', 'on run argv',
+      '-e', 'display notification (item 2 of argv) with title (item 1 of argv)',
+      '-e', 'end run',
+      title,
+      message,
+    ]);
+  }
+  if (process.platform === 'win32') {
+    const script = [
+      'Add-Type -AssemblyName System.Windows.Forms',
+      '$n = New-Object System.Windows.Forms.NotifyIcon',
+      '$n.Icon = [System.Drawing.SystemIcons]::Warning',
+      '$n.Visible = $true',
+      '$n.ShowBalloonTip(10000, $env:TOKNXR_ALERT_TITLE, $env:TOKNXR_ALERT_MESSAGE, "Warning")',
+      'Start-Sleep -Seconds 1',
+    ].join('; ');
+    return runFile('powershell', ['-NoProfile', '-Command', script], {
+      ...process.env,
+      TOKNXR_ALERT_TITLE: title,
+      TOKNXR_ALERT_MESSAGE: message,
+    });
+  }
+  return runFile('notify-send', ['--urgency', alert.level === 'exceeded' ? 'critical' : 'normal', title, message]);
+}
+
+function runCommand(channel: CommandChannel, alert: BudgetAlert): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(channel.command, {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'pipe'],
+      env: { ...process.env, TOKNXR_ALERT_LEVEL: alert.level, TOKNXR_ALERT_SUBJECT: alert.subject },
+    });
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`timed out after ${channel.timeoutSeconds ?? DEFAULT_COMMAND_TIMEOUT_SECONDS}s`));
+    }, (channel.timeoutSeconds ?? DEFAULT_COMMAND_TIMEOUT_SECONDS) * 1000);
+    child.stderr.on('data', chunk => (stderr += chunk));
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`exited with ${code}${stderr.trim() ? `: ${stderr.trim().slice(0, 200)}` : ''}`));
+    });
+    child.stdin.on('error', () => undefined); // the command may not read its input
+    child.stdin.end(JSON.stringify(alert));
+  });
+}
+
+async function deliver(channel: AlertChannel, alert: BudgetAlert): Promise<void> {
+  switch (channel.type) {
+    case 'webhook':
+      await axios.post(channel.url, alert, { timeout: HTTP_TIMEOUT_MS, headers: channel.headers });
+      return;
+    case 'slack':
+      await axios.post(channel.webhookUrl, { text: `*${alert.subject}*\n${alert.text}` }, { timeout: HTTP_TIMEOUT_MS });
+      return;
+    case 'email': {
+      if (channel.passwordEnvVar && !process.env[channel.passwordEnvVar]) {
+        throw new Error(`${channel.passwordEnvVar} is not set`);
+      }
+      await sendMail(
+        {
+          host: channel.host,
+          port: channel.port,
+          secure: channel.secure,
+          username: channel.username,
+          password: channel.passwordEnvVar ? process.env[channel.passwordEnvVar] : undefined,
+          allowInsecureAuth: channel.allowInsecureAuth,
+        },
+        {
+          from: channel.from,
+          to: Array.isArray(channel.to) ? channel.to : [channel.to],
+          subject: alert.subject,
+          text: alert.text,
+        }
+      );
+      return;
+    }
+    case 'desktop':
+      await notifyDesktop(alert);
+      return;
+    case 'command':
+      await runCommand(channel, alert);
+      return;
+    default:
+      throw new Error(`unknown alert channel type "${(channel as { type?: string }).type}"`);
+  }
+}
+
+/**
+ * Send an alert to every channel that takes its level. Failures are reported, not thrown.
+ */
+export async function dispatchAlert(channels: AlertChannel[], alert: BudgetAlert): Promise<DeliveryResult[]> {
+  return Promise.all(
+    channels.map(async channel => {
+      const name = channelName(channel);
+      if (channel.on && !channel.on.includes(alert.level)) return { channel: name, ok: true, skipped: true };
+      try {
+        await deliver(channel, alert);
+        return { channel: name, ok: true };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { channel: name, ok: false, error: message };
+      }
+    })
+  );
+}
+
+/**
+ * Which thresholds have already alerted in their current window, kept in
+ * toknxr.alert-log.json so a proxy restart does not repeat them
+ */
+export class AlertLog {
+  private sent: Record<string, string> = {}; // "<level>|<budget>|<window start>" -> when the window ends
+
+  constructor(private filePath: string) {}
+
+  static load(cwd: string = process.cwd()): AlertLog {
+    const log = new AlertLog(path.resolve(cwd, ALERT_LOG_FILE));
+    if (fs.existsSync(log.filePath)) {
+      try {
+        log.sent = JSON.parse(fs.readFileSync(log.filePath, 'utf8')).sent || {};
+      } catch (error) {
+        console.error(`Could not read ${ALERT_LOG_FILE}; alerts may repeat:`, error);
+      }
+    }
+    return log;
+  }
+
+  save(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version: 1, sent: this.sent }, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * The statuses over a threshold that have not alerted yet in this window; marks them as sent
+   */
+  claim(statuses: BudgetStatus[], now: Date = new Date()): BudgetStatus[] {
+    // Forget windows that have ended
+    for (const [key, endsAt] of Object.entries(this.sent)) {
+      if (Date.parse(endsAt) <= now.getTime()) delete this.sent[key];
+    }
+    return statuses.filter(status => {
+      if (status.state === 'ok') return false;
+      const key = `${status.state}|${status.label}|${windowStart(status.rule.window, now).toISOString()}`;
+      if (this.sent[key]) return false;
+      this.sent[key] = windowEnd(status.rule.window, now).toISOString();
+      return true;
+    });
+  }
+}
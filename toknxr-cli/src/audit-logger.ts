@@ -197,7 +197,15 @@ export class EnterpriseAuditLogger {
     });
   }
 
-  logAIEvent(type: AuditEventType, userId: string, model: string, tokens: number, cost: number, quality: number): void {
+  logAIEvent(
+    type: AuditEventType,
+    userId: string,
+    model: string,
+    tokens: number,
+    cost: number,
+    quality: number,
+    details: Record<string, unknown> = {}
+  ): void {
     this.log({
       eventType: type,
       userId,
@@ -211,7 +219,8 @@ export class EnterpriseAuditLogger {
         model,
         tokens,
         cost_usd: cost,
-        quality_score: quality
+        quality_score: quality,
+        ...details
       },
       metadata: {
         version: '1.0.0',
@@ -460,14 +469,14 @@ export class EnterpriseAuditLogger {
   }
 
   private scheduleMaintenance(): void {
-    // Run maintenance every hour
+    // Run maintenance every hour; unref'd so it does not keep short commands running
     setInterval(() => {
       try {
         this.performMaintenance();
       } catch (error) {
         console.error('Audit maintenance failed:', error);
       }
-    }, 60 * 60 * 1000); // 1 hour
+    }, 60 * 60 * 1000).unref(); // 1 hour
   }
 
   private performMaintenance(): void {
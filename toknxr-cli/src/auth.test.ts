@@ -0,0 +1,88 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FunctionsFetchError, FunctionsHttpError, type SupabaseClient } from '@supabase/supabase-js';
+import { loginWithDeviceCode } from './auth.js';
+import { getCredentialStore } from './credential-store.js';
+
+let dir: string;
+const initialEnv = { ...process.env };
+
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-auth-'));
+  process.env.TOKNXR_CONFIG_DIR = dir;
+  process.env.TOKNXR_CREDENTIAL_STORE = 'file';
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  process.env = { ...initialEnv };
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+type PollResult = { data?: unknown; error?: Error };
+
+/**
+ * A client whose cli-device-auth function starts a device login and answers polls in turn
+ */
+const deviceAuthClient = (...polls: PollResult[]) => {
+  const bodies: Array<{ action: string; deviceCode?: string }> = [];
+  const client = {
+    functions: {
+      invoke: async (_name: string, { body }: { body: { action: string; deviceCode?: string } }) => {
+        bodies.push(body);
+        if (body.action === 'start') {
+          return { data: { deviceCode: 'device-secret', userCode: 'BCDF-GHJK', expiresIn: 60, interval: 0 }, error: null };
+        }
+        const { data = null, error = null } = polls.shift() ?? { data: { status: 'expired' } };
+        return { data, error };
+      },
+    },
+  };
+  return { client: client as unknown as SupabaseClient, polls: () => bodies.filter(body => body.action === 'poll') };
+};
+
+const storedSession = async () => {
+  const stored = await (await getCredentialStore()).get();
+  return stored && JSON.parse(stored);
+};
+
+test('device login keeps polling while authorization is pending and stores the approved session', async () => {
+  const { client, polls } = deviceAuthClient(
+    { data: { status: 'pending' } },
+    { error: new FunctionsFetchError('network down') },
+    { data: { status: 'pending' } },
+    { data: { status: 'approved', credentials: { accessToken: 'access', refreshToken: 'refresh', expiresAt: 1_900_000_000 } } }
+  );
+  await loginWithDeviceCode(client);
+
+  assert.equal(polls().length, 4);
+  assert.ok(polls().every(body => body.deviceCode === 'device-secret'));
+  assert.deepEqual(await storedSession(), { accessToken: 'access', refreshToken: 'refresh', expiresAt: 1_900_000_000 });
+});
+
+test('device login gives up once the code has expired', async () => {
+  const error = mock.method(console, 'error', () => {});
+  const { client, polls } = deviceAuthClient({ data: { status: 'pending' } }, { data: { status: 'expired' } });
+  await loginWithDeviceCode(client);
+
+  assert.equal(polls().length, 2);
+  assert.match(String(error.mock.calls[0].arguments[0]), /expired before it was confirmed/);
+  assert.equal(await storedSession(), null);
+});
+
+test('device login stops when the device code is refused', async () => {
+  const error = mock.method(console, 'error', () => {});
+  const { client, polls } = deviceAuthClient(
+    { error: new FunctionsHttpError(new Response('{"error":"Missing deviceCode"}', { status: 400 })) },
+    { data: { status: 'approved', credentials: { accessToken: 'never collected' } } }
+  );
+  await loginWithDeviceCode(client);
+
+  assert.equal(polls().length, 1);
+  assert.match(String(error.mock.calls[0].arguments[0]), /refused \(HTTP 400\)/);
+  assert.equal(await storedSession(), null);
+});
@@ -1,27 +1,315 @@
 import * as http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
 import open from 'open';
 import chalk from 'chalk';
-import * as keytar from 'keytar'; // Import keytar
+import { FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
+import { getCredentialStore } from './credential-store.js';
 
-const CLI_LOGIN_PORT = 8789;
+const LOGIN_TIMEOUT_SECONDS = 5 * 60;
+const MAX_CALLBACK_BODY_BYTES = 64 * 1024;
 const WEB_APP_URL = 'http://localhost:3000';
-const SERVICE_NAME = 'toknxr-cli'; // A unique name for our service in the keychain
-const ACCOUNT_NAME = 'default-user'; // A generic account name for the stored token
+const REFRESH_MARGIN_SECONDS = 60; // refresh sessions this close to expiry
+export const API_TOKEN_ENV_VAR = 'TOKNXR_API_TOKEN';
 
-// Function to securely store the token
-const storeToken = async (token: string) => {
-  await keytar.setPassword(SERVICE_NAME, ACCOUNT_NAME, token);
-  console.log(chalk.green('Supabase JWT securely stored in system keychain.'));
+/**
+ * Credentials kept in the credential store. Older CLI versions stored a bare access token.
+ */
+export interface StoredSession {
+  accessToken: string;
+  refreshToken?: string; // absent for tokens that cannot be refreshed
+  expiresAt?: number; // unix seconds
+  source?: 'env' | 'keychain' | 'file'; // where the credentials were loaded from (not persisted)
+}
+
+// Shape posted by the web app to the login callback
+interface CliTokenPayload {
+  token?: string; // long-lived CLI token from exchange-id-for-token
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  state?: string; // echoed from the /cli-login URL
+}
+
+/**
+ * Decode the claims of a JWT without verifying it (only used for display and expiry checks)
+ */
+export const decodeJwtClaims = (token: string): Record<string, any> | null => {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const sessionExpiry = (session: StoredSession): number | undefined =>
+  session.expiresAt ?? decodeJwtClaims(session.accessToken)?.exp;
+
+/**
+ * Default project of an API token, if any (see `toknxr api-token:create`)
+ */
+export const tokenProjectId = (session: StoredSession): string | undefined =>
+  decodeJwtClaims(session.accessToken)?.app_metadata?.default_project_id;
+
+// Function to securely store the session
+const storeSession = async (session: StoredSession): Promise<StoredSession['source']> => {
+  const store = await getCredentialStore();
+  const { accessToken, refreshToken, expiresAt } = session;
+  await store.set(JSON.stringify({ accessToken, refreshToken, expiresAt }));
+  return store.name;
+};
+
+// An API token in the environment takes precedence over stored credentials
+const getSession = async (): Promise<StoredSession | null> => {
+  const envToken = process.env[API_TOKEN_ENV_VAR]?.trim();
+  if (envToken) return { accessToken: envToken, source: 'env' };
+
+  const store = await getCredentialStore();
+  const stored = await store.get();
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    if (parsed && typeof parsed.accessToken === 'string') return { ...parsed, source: store.name } as StoredSession;
+  } catch {
+    // Stored by an older version: a bare access token
+  }
+  return { accessToken: stored, source: store.name };
 };
 
-// Function to retrieve the token
+// Function to retrieve the (possibly expired) access token
 const getToken = async (): Promise<string | null> => {
-  return await keytar.getPassword(SERVICE_NAME, ACCOUNT_NAME);
+  return (await getSession())?.accessToken ?? null;
+};
+
+/**
+ * Load the stored session, refresh it if it is about to expire, and attach it to a
+ * Supabase client. Returns null (after explaining why) when the user must log in again.
+ */
+export const authenticateClient = async (client: SupabaseClient): Promise<StoredSession | null> => {
+  let session = await getSession();
+  if (!session) {
+    console.error(chalk.red('No authentication token found. Please login first with `toknxr login`.'));
+    return null;
+  }
+
+  const expiresAt = sessionExpiry(session);
+  const expiringSoon = expiresAt !== undefined && expiresAt - Date.now() / 1000 < REFRESH_MARGIN_SECONDS;
+  if (expiringSoon) {
+    if (session.source === 'env') {
+      console.error(chalk.red(`${API_TOKEN_ENV_VAR} has expired. Create a new one with \`toknxr api-token:create\`.`));
+      return null;
+    }
+    if (!session.refreshToken) {
+      console.error(chalk.red('Your CLI session has expired. Please run `toknxr login` again.'));
+      return null;
+    }
+    const { data, error } = await client.auth.refreshSession({ refresh_token: session.refreshToken });
+    if (error || !data.session) {
+      console.error(chalk.red(`Could not refresh your CLI session (${error?.message || 'no session returned'}). Please run \`toknxr login\` again.`));
+      return null;
+    }
+    session = {
+      accessToken: data.session.access_token,
+      refreshToken: data.session.refresh_token,
+      expiresAt: data.session.expires_at,
+      source: session.source,
+    };
+    await storeSession(session);
+    console.log(chalk.gray('Refreshed CLI session.'));
+  }
+
+  await client.auth.setSession({ access_token: session.accessToken, refresh_token: session.refreshToken || '' });
+  return session;
+};
+
+/**
+ * Remove the stored credentials
+ */
+export const logout = async () => {
+  const store = await getCredentialStore();
+  const removed = await store.delete();
+  console.log(removed ? chalk.green(`Logged out. Credentials removed from the ${store.name} store.`) : chalk.yellow('You were not logged in.'));
+  if (process.env[API_TOKEN_ENV_VAR]) {
+    console.log(chalk.yellow(`${API_TOKEN_ENV_VAR} is still set and will keep authenticating this shell.`));
+  }
+};
+
+/**
+ * Show who the stored credentials belong to, when they expire and the linked organization
+ */
+export const whoami = async (client: SupabaseClient) => {
+  const session = await getSession();
+  if (!session) {
+    console.log(chalk.yellow('Not logged in. Run `toknxr login` to authenticate.'));
+    return;
+  }
+
+  const claims = decodeJwtClaims(session.accessToken) || {};
+  const { data: userData, error: userError } = await client.auth.getUser(session.accessToken);
+  const user = userData?.user;
+
+  console.log(chalk.bold.blue('👤 TokNxr CLI Session'));
+  console.log(chalk.gray('━'.repeat(50)));
+  console.log(`  User:    ${user?.email || claims.email || 'unknown'} ${chalk.gray(`(${user?.id || claims.sub || 'no id'})`)}`);
+
+  const expiresAt = sessionExpiry(session);
+  if (expiresAt) {
+    const expired = expiresAt * 1000 < Date.now();
+    const when = new Date(expiresAt * 1000).toLocaleString();
+    console.log(`  Token:   ${expired ? chalk.red(`expired ${when}`) : chalk.green(`valid until ${when}`)}`);
+  }
+  console.log(
+    `  Refresh: ${session.refreshToken ? chalk.green('stored (renewed automatically)') : chalk.yellow('not available; log in again when the token expires')}`
+  );
+  console.log(`  Source:  ${session.source === 'env' ? API_TOKEN_ENV_VAR : `${session.source} credential store`}`);
+  if (tokenProjectId(session)) console.log(`  Project: ${tokenProjectId(session)} ${chalk.gray('(API token default)')}`);
+
+  if (userError || !user) {
+    console.log(chalk.yellow(`\n  Could not verify the session with Supabase${userError ? `: ${userError.message}` : ''}.`));
+    return;
+  }
+
+  await client.auth.setSession({ access_token: session.accessToken, refresh_token: session.refreshToken || '' });
+  const { data: profile } = await client
+    .from('profiles')
+    .select('display_name, organizations(name)')
+    .eq('id', user.id)
+    .maybeSingle();
+  const organization = (profile as { organizations?: { name?: string } | null } | null)?.organizations?.name;
+  if (profile?.display_name) console.log(`  Name:    ${profile.display_name}`);
+  console.log(`  Org:     ${organization || chalk.gray('none linked')}`);
+};
+
+const saveLoginSession = async (session: StoredSession) => {
+  const source = await storeSession(session); // Store the session securely
+  const where = source === 'keychain' ? 'system keychain' : 'encrypted credentials file';
+  console.log(
+    chalk.green(`${session.refreshToken ? 'Supabase session' : 'Supabase JWT'} securely stored in ${where}.`)
+  );
+};
+
+const toStoredSession = (payload: CliTokenPayload | undefined): StoredSession | null =>
+  payload?.accessToken
+    ? { accessToken: payload.accessToken, refreshToken: payload.refreshToken, expiresAt: payload.expiresAt }
+    : payload?.token
+      ? { accessToken: payload.token }
+      : null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Device-code login for machines without a browser: print a code, let the user
+ * confirm it from any signed-in browser, and poll until the credentials arrive.
+ */
+export const loginWithDeviceCode = async (client: SupabaseClient) => {
+  const { data: start, error: startError } = await client.functions.invoke('cli-device-auth', {
+    body: { action: 'start' },
+  });
+  if (startError || !start?.deviceCode) {
+    console.error(chalk.red('Login failed:', startError?.message || 'could not start device login'));
+    return;
+  }
+
+  const verificationUrl = `${WEB_APP_URL}/cli-login?code=${encodeURIComponent(start.userCode)}`;
+  console.log(chalk.yellow(`\nOn any device with a browser, open:\n\n    ${chalk.cyan(verificationUrl)}\n`));
+  console.log(chalk.yellow(`and confirm that it shows the code ${chalk.bold(start.userCode)}. Waiting for confirmation...`));
+
+  const deadline = Date.now() + start.expiresIn * 1000;
+  while (Date.now() < deadline) {
+    await sleep(start.interval * 1000);
+    const { data: poll, error: pollError } = await client.functions.invoke('cli-device-auth', {
+      body: { action: 'poll', deviceCode: start.deviceCode },
+    });
+    if (pollError instanceof FunctionsHttpError && pollError.context.status < 500) {
+      // The function turned the device code down; asking again will not change that
+      console.error(chalk.red(`Login failed: the device code was refused (HTTP ${pollError.context.status}).`));
+      return;
+    }
+    if (pollError) continue; // network errors and server faults: keep polling until the code expires
+    if (poll?.status === 'expired') break;
+    if (poll?.status === 'approved') {
+      const session = toStoredSession(poll.credentials);
+      if (!session) {
+        console.error(chalk.red('Login failed: no credentials were returned.'));
+        return;
+      }
+      await saveLoginSession(session);
+      console.log(chalk.cyan('Authentication complete. You can now use TokNxr CLI commands.'));
+      return;
+    }
+  }
+  console.error(chalk.red('Login failed: the code expired before it was confirmed. Run `toknxr login --device` again.'));
+};
+
+/**
+ * Issue an API token for CI via TOKNXR_API_TOKEN. It carries the user's full access until it
+ * expires; the project is only the default for `toknxr sync`.
+ */
+export const createApiToken = async (client: SupabaseClient, project: string, days: number) => {
+  const session = await authenticateClient(client);
+  if (!session) return;
+
+  const { data: projects } = await client.from('projects').select('id, name');
+  const matches = (projects || []).filter(p => p.id === project || p.name.toLowerCase() === project.toLowerCase());
+  if (matches.length !== 1) {
+    console.error(chalk.red(matches.length ? `Project name "${project}" is ambiguous; use its id.` : `Project not found: ${project}`));
+    return;
+  }
+  const projectId = matches[0].id;
+
+  const { data, error } = await client.functions.invoke('issue-api-token', {
+    body: { projectId, days },
+    headers: { Authorization: `Bearer ${session.accessToken}` },
+  });
+  if (error || !data?.token) {
+    console.error(chalk.red('Could not create API token:', error?.message || 'no token returned'));
+    return;
+  }
+
+  console.log(chalk.green(`API token for project ${data.project?.name || projectId}, valid until ${new Date(data.expiresAt * 1000).toLocaleDateString()}:`));
+  console.log(`\n${data.token}\n`);
+  console.log(chalk.gray(`Store it as a CI secret and expose it as ${API_TOKEN_ENV_VAR}. It is not shown again.`));
+  console.log(chalk.yellow('It has the same access as your account and cannot be revoked before it expires.'));
+};
+
+export interface LoginOptions {
+  port?: number; // callback port; 0 picks a free one
+  timeoutSeconds?: number;
+}
+
+const readRequestBody = async (req: http.IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_CALLBACK_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
 };
 
-export const login = async () => {
-  const server = new Promise<string>((resolve, reject) => {
-    const s = http.createServer(async (req, res) => {
+/**
+ * Browser login: open the web app, which posts the credentials back to a one-off
+ * callback server on 127.0.0.1. Only a request carrying this login's random state
+ * value and a token Supabase accepts completes the login; anything else is
+ * rejected without ending it.
+ */
+export const login = async (client: SupabaseClient, options: LoginOptions = {}) => {
+  const expectedState = randomBytes(16).toString('hex');
+  const port = options.port ?? (Number(process.env.TOKNXR_LOGIN_PORT) || 0);
+  const timeoutSeconds = options.timeoutSeconds ?? LOGIN_TIMEOUT_SECONDS;
+
+  let s: http.Server | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const server = new Promise<StoredSession>((resolve, reject) => {
+    let completing = false;
+
+    s = http.createServer(async (req, res) => {
       // Handle CORS preflight requests
       res.setHeader('Access-Control-Allow-Origin', WEB_APP_URL);
       res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
@@ -33,46 +321,77 @@ export const login = async () => {
         return;
       }
 
-      if (req.method === 'POST' && req.url === '/token') {
-        const chunks: Buffer[] = [];
-        for await (const chunk of req) {
-          chunks.push(chunk);
-        }
-        const requestBody = Buffer.concat(chunks).toString();
-        const { token: supabaseJwt } = JSON.parse(requestBody); // Supabase JWT
-
-        if (supabaseJwt) {
-          console.log(chalk.green('CLI authentication successful!'));
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: true }));
-          s.close();
-          resolve(supabaseJwt); // Resolve with the Supabase JWT
-        } else {
-          res.writeHead(400, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'No token provided' }));
-          s.close();
-          reject(new Error('No token provided'));
-        }
-      } else {
+      if (req.method !== 'POST' || req.url !== '/token') {
         res.writeHead(404);
         res.end();
+        return;
+      }
+
+      let payload: CliTokenPayload;
+      try {
+        payload = JSON.parse(await readRequestBody(req));
+      } catch (error) {
+        sendJson(res, 400, { error: error instanceof Error ? error.message : 'Invalid request body' });
+        return;
+      }
+
+      const receivedState = Buffer.from(String(payload?.state ?? ''));
+      if (receivedState.length !== expectedState.length || !timingSafeEqual(receivedState, Buffer.from(expectedState))) {
+        console.warn(chalk.yellow('Ignored a login callback with a missing or wrong state value.'));
+        sendJson(res, 403, { error: 'Invalid state' });
+        return;
       }
+
+      // Prefer the refreshable Supabase session; fall back to the long-lived CLI token
+      const session = toStoredSession(payload);
+      if (!session) {
+        sendJson(res, 400, { error: 'No token provided' });
+        return;
+      }
+      if (completing) {
+        sendJson(res, 409, { error: 'Login already in progress' });
+        return;
+      }
+
+      completing = true;
+      const { data, error } = await client.auth.getUser(session.accessToken);
+      if (error || !data.user) {
+        completing = false;
+        sendJson(res, 401, { error: 'Token rejected by Supabase' });
+        return;
+      }
+
+      console.log(chalk.green(`CLI authentication successful! Logged in as ${data.user.email || data.user.id}.`));
+      sendJson(res, 200, { success: true });
+      resolve(session);
     });
 
-    s.listen(CLI_LOGIN_PORT, async () => {
-      const loginUrl = `${WEB_APP_URL}/cli-login?port=${CLI_LOGIN_PORT}`;
+    s.on('error', reject);
+    s.listen(port, '127.0.0.1', async () => {
+      const address = s!.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+      const loginUrl = `${WEB_APP_URL}/cli-login?port=${boundPort}&state=${expectedState}`;
       console.log(chalk.yellow('Your browser has been opened to complete the login process.'));
+      console.log(chalk.gray(`If it did not open, visit ${loginUrl}`));
       await open(loginUrl);
     });
+
+    timer = setTimeout(
+      () => reject(new Error(`No response from the browser within ${timeoutSeconds} seconds`)),
+      timeoutSeconds * 1000
+    );
   });
 
   try {
-    const supabaseJwt = await server; // Get the Supabase JWT
-    await storeToken(supabaseJwt); // Store the Supabase JWT securely
+    const session = await server;
+    await saveLoginSession(session);
     console.log(chalk.cyan('Authentication complete. You can now use TokNxr CLI commands.'));
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     console.error(chalk.red('Login failed:', message));
+  } finally {
+    clearTimeout(timer);
+    s?.close();
   }
 };
 
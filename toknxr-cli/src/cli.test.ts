@@ -0,0 +1,94 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { gunzipSync, gzipSync } from 'node:zlib';
+
+const cliPath = fileURLToPath(new URL('./cli.ts', import.meta.url));
+const tsxLoader = import.meta.resolve('tsx/esm');
+
+let cwd: string;
+
+beforeEach(() => {
+  cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-cli-'));
+});
+
+afterEach(() => {
+  fs.rmSync(cwd, { recursive: true, force: true });
+});
+
+/**
+ * Runs the CLI in the test directory without Supabase settings, as a local-only user would
+ */
+function toknxr(...args: string[]) {
+  const env: NodeJS.ProcessEnv = { ...process.env, NO_COLOR: '1', FORCE_COLOR: '0' };
+  delete env.SUPABASE_URL;
+  delete env.SUPABASE_KEY;
+  return spawnSync(process.execPath, ['--import', tsxLoader, cliPath, ...args], {
+    cwd,
+    env,
+    encoding: 'utf8',
+    timeout: 60_000,
+  });
+}
+
+const writeLog = (...entries: object[]) =>
+  fs.writeFileSync(path.join(cwd, 'interactions.log'), entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+
+test('lists its commands', () => {
+  const result = toknxr('--help');
+  assert.equal(result.status, 0, result.stderr);
+  for (const command of ['start', 'stats', 'budget', 'pricing', 'keys:create']) {
+    assert.match(result.stdout, new RegExp(`\\b${command}\\b`));
+  }
+});
+
+test('stats says when nothing has been logged, and exits', () => {
+  const result = toknxr('stats');
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /No interactions logged yet/);
+});
+
+test('stats totals successful requests and reports upstream errors separately', () => {
+  writeLog(
+    { provider: 'OpenAI', model: 'gpt-4o', promptTokens: 1000, completionTokens: 500, totalTokens: 1500, costUSD: 1.25, requestId: 'r1' },
+    { provider: 'Anthropic', model: 'claude-3-5-sonnet', promptTokens: 0, completionTokens: 0, totalTokens: 0, costUSD: 0, requestId: 'r2', outcome: 'error', status: 500 }
+  );
+  const result = toknxr('stats');
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /Total Cost: \$1\.25/);
+  assert.match(result.stdout, /Total Requests: 1\b/);
+  assert.match(result.stdout, /Upstream Error Rates/);
+  assert.match(result.stdout, /Anthropic\s+1\/1\s+100\.0%/);
+});
+
+test('pricing --reprice is a dry run unless --write is given', () => {
+  writeLog({ provider: 'OpenAI', model: 'gpt-4o', promptTokens: 1000, completionTokens: 500, totalTokens: 1500, costUSD: 99, requestId: 'r1' });
+  const before = fs.readFileSync(path.join(cwd, 'interactions.log'), 'utf8');
+  const result = toknxr('pricing', '--reprice');
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /gpt-4o\s+1 req/);
+  assert.match(result.stdout, /Dry run/);
+  assert.equal(fs.readFileSync(path.join(cwd, 'interactions.log'), 'utf8'), before);
+});
+
+test('pricing --reprice --write re-prices rotated and compressed segments too', () => {
+  const line = (requestId: string) =>
+    JSON.stringify({ provider: 'OpenAI', model: 'gpt-4o', promptTokens: 1000, completionTokens: 500, costUSD: 99, requestId });
+  fs.writeFileSync(path.join(cwd, 'interactions.1000.log.gz'), gzipSync(`${line('r1')}\n`));
+  fs.writeFileSync(path.join(cwd, 'interactions.2000.log'), `${line('r2')}\n`);
+  writeLog(JSON.parse(line('r3')));
+
+  const result = toknxr('pricing', '--reprice', '--write');
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stdout, /gpt-4o\s+3 req/);
+  const costs = [
+    gunzipSync(fs.readFileSync(path.join(cwd, 'interactions.1000.log.gz'))).toString('utf8'),
+    fs.readFileSync(path.join(cwd, 'interactions.2000.log'), 'utf8'),
+    fs.readFileSync(path.join(cwd, 'interactions.log'), 'utf8'),
+  ].map(text => JSON.parse(text).costUSD);
+  assert.ok(costs.every(cost => cost > 0 && cost < 1), `costs: ${costs}`);
+});
@@ -3,12 +3,45 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import readline from 'readline';
 import { startProxyServer } from './proxy.js';
-import { login } from './auth.js';
+import { login, loginWithDeviceCode, createApiToken, logout, whoami } from './auth.js';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import open from 'open';
-import { syncInteractions } from './sync.js';
+import { syncInteractions, showSyncStatus } from './sync.js';
+import { ProxyKeyStore, PROXY_KEYS_FILE } from './proxy-keys.js';
+import {
+  hasInteractionLog,
+  interactionLogPath,
+  isFailedInteraction,
+  listLogSegments,
+  readInteractionLog,
+  readLogSegment,
+  rewriteLogSegment,
+} from './interaction-log.js';
+import {
+  currentMonthKey,
+  computeMonthlySpend,
+  loadPolicy,
+  budgetRules,
+  budgetOverview,
+  readSpendRecords,
+  SpendAggregate,
+  BudgetStatus,
+} from './policy.js';
+import { alertChannels, buildBudgetAlert, channelName, dispatchAlert, AlertLevel } from './alerts.js';
+import {
+  PRICING_CATALOG_FILE,
+  builtInPricingCatalog,
+  diffPricingCatalogs,
+  estimateCost,
+  findModelPricing,
+  loadPricingCatalog,
+  mergeWithBuiltInPricing,
+  priceAt,
+  readPricingCatalogFile,
+  validatePricingCatalog,
+} from './pricing.js';
 import {
   createStatsOverview,
   createProviderTable,
@@ -45,6 +78,15 @@ interface Interaction {
   model?: string;
   requestId?: string;
   timestamp?: string;
+  pricingSource?: 'exact' | 'alias' | 'fallback' | 'unknown';
+  user?: string;
+  team?: string;
+  outcome?: 'success' | 'error'; // absent on lines logged before failed requests were recorded
+  status?: number;
+  attempts?: Array<{ provider: string; status?: number; error?: string }>;
+  operation?: string; // chat, embeddings, image, audio or batch; absent on older (chat) lines
+  images?: number;
+  audioSeconds?: number;
 }
 
 // Gracefully handle broken pipe (e.g., piping output to `head`)
@@ -84,15 +126,52 @@ ${chalk.hex('#FFD700')('🐑 Powered by Golden Sheep AI')}
 console.log(asciiArt);
 
 // --- Supabase Client ---
-const supabaseUrl = process.env.SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_KEY || '';
+// Created on first use, so commands that only read local files (stats, pricing, budget, ...)
+// work without Supabase settings
+let supabaseClient: SupabaseClient | undefined;
+
+function supabase(): SupabaseClient {
+  if (supabaseClient) return supabaseClient;
+  const supabaseUrl = process.env.SUPABASE_URL || '';
+  const supabaseKey = process.env.SUPABASE_KEY || '';
+  if (!supabaseUrl || !supabaseKey) {
+    console.error(chalk.red('Error: Supabase URL or Key not found in environment variables.'));
+    process.exit(1);
+  }
+  supabaseClient = createClient(supabaseUrl, supabaseKey);
+  return supabaseClient;
+}
 
-if (!supabaseUrl || !supabaseKey) {
-  console.error(chalk.red('Error: Supabase URL or Key not found in environment variables.'));
-  process.exit(1);
+/**
+ * Cost and request totals per user or team, most expensive first. Lines logged
+ * before attribution existed are grouped as 'unattributed'.
+ */
+function spendBreakdown(interactions: Interaction[], field: 'user' | 'team') {
+  const totals: Record<string, { requests: number; costUSD: number }> = {};
+  interactions.forEach(interaction => {
+    const entry = (totals[interaction[field] || 'unattributed'] ||= { requests: 0, costUSD: 0 });
+    entry.requests += 1;
+    entry.costUSD += interaction.costUSD || 0;
+  });
+  return Object.entries(totals).sort(([, a], [, b]) => b.costUSD - a.costUSD);
 }
 
-const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey);
+/**
+ * Requests, usage and cost per kind of call, most expensive first. Usage is counted
+ * in what the operation is billed by: tokens, images or seconds of audio.
+ */
+function operationBreakdown(interactions: Interaction[]) {
+  const totals: Record<string, { requests: number; tokens: number; images: number; audioSeconds: number; costUSD: number }> = {};
+  interactions.forEach(interaction => {
+    const entry = (totals[interaction.operation || 'chat'] ||= { requests: 0, tokens: 0, images: 0, audioSeconds: 0, costUSD: 0 });
+    entry.requests += 1;
+    entry.tokens += interaction.totalTokens || 0;
+    entry.images += interaction.images || 0;
+    entry.audioSeconds += interaction.audioSeconds || 0;
+    entry.costUSD += interaction.costUSD || 0;
+  });
+  return Object.entries(totals).sort(([, a], [, b]) => b.costUSD - a.costUSD);
+}
 
 /**
  * Generate weekly cost trends for the cost chart visualization
@@ -196,7 +275,7 @@ program
           break;
 
         case 'sync':
-          await syncInteractions(supabase, {});
+          await syncInteractions(supabase(), {});
           break;
 
         case 'hallucinations':
@@ -215,7 +294,17 @@ program
 program
   .command('start')
   .description('Start the TokNxr proxy server to monitor AI interactions.')
-  .action(async () => {
+  .option('--port <n>', 'Port to listen on (default: server.port or 8788)')
+  .option('--host <address>', 'Address to bind (default: server.host or 127.0.0.1)')
+  .option('--tls-cert <file>', 'PEM certificate; serve HTTPS together with --tls-key')
+  .option('--tls-key <file>', 'PEM private key for --tls-cert')
+  .action(async options => {
+    const serverOptions = {
+      port: options.port !== undefined ? parseInt(options.port) : undefined,
+      host: options.host,
+      tlsCert: options.tlsCert,
+      tlsKey: options.tlsKey,
+    };
     const steps = [
       'Checking system compatibility',
       'Loading configuration & policies',
@@ -237,16 +326,15 @@ program
       setTimeout(() => {
         spinner.updateProgress(5);
         spinner.succeed(chalk.green(`✨ TokNXR proxy server is ready!`));
-        console.log(chalk.cyan(`🔗 Listening at: ${chalk.bold('http://localhost:8788')}`));
         console.log(chalk.gray(`🎯 Start making AI requests to see real-time analytics!`));
         console.log(chalk.gray(`💡 Use ${chalk.cyan('toknxr stats')} to view usage insights`));
         // Start the actual server
-        startProxyServer();
+        startProxyServer(serverOptions);
       }, 2200);
     } catch (error) {
       spinner.fail(chalk.red('Failed to start proxy server'));
       console.log(chalk.yellow(`\n💡 Troubleshooting tips:`));
-      console.log(`  • Check if port 8788 is available`);
+      console.log(`  • Check if the proxy port (default 8788) is available`);
       console.log(`  • Verify GEMINI_API_KEY is set`);
       console.log(`  • Run ${chalk.cyan('toknxr init')} to set up config`);
       throw error;
@@ -257,8 +345,17 @@ program
   .command('sync')
   .description('Sync local interaction logs to the Supabase dashboard.')
   .option('--clear', 'Clear the log file after a successful sync.')
+  .option('--full', 'Ignore the sync cursor and re-upload the whole log (safe to repeat).')
+  .option('--project <nameOrId>', 'Project for interactions without an X-Toknxr-Project header (overrides defaultProject).')
+  .option('--no-create-services', 'Skip interactions whose AI service is missing instead of registering it.')
+  .option('--retry', 'Retry failed interactions now instead of waiting for their backoff.')
+  .option('--status', 'Show pending, failed and synced counts without syncing.')
   .action(async options => {
-    await syncInteractions(supabase, options);
+    if (options.status) {
+      showSyncStatus();
+      return;
+    }
+    await syncInteractions(supabase(), options);
   });
 
 program
@@ -266,7 +363,7 @@ program
   .description('Display enhanced token usage statistics with visual analytics')
   .action(async () => {
     const logFilePath = path.resolve(process.cwd(), 'interactions.log');
-    if (!fs.existsSync(logFilePath)) {
+    if (!hasInteractionLog(logFilePath)) {
       console.log(
         chalk.yellow('No interactions logged yet. Start tracking with: ') +
           chalk.cyan('toknxr start')
@@ -274,10 +371,10 @@ program
       return;
     }
 
-    // Load and parse interactions
-    const fileContent = fs.readFileSync(logFilePath, 'utf8');
+    // Load and parse interactions; failed requests only count towards error rates
+    const fileContent = readInteractionLog(logFilePath);
     const lines = fileContent.trim().split('\n');
-    const interactions: Interaction[] = lines
+    const entries: Interaction[] = lines
       .map(line => {
         try {
           return JSON.parse(line) as Interaction;
@@ -286,8 +383,9 @@ program
         }
       })
       .filter((interaction): interaction is Interaction => interaction !== null);
+    const interactions = entries.filter(interaction => !isFailedInteraction(interaction));
 
-    if (interactions.length === 0) {
+    if (entries.length === 0) {
       console.log(chalk.yellow('No valid interactions found in log file.'));
       return;
     }
@@ -426,6 +524,38 @@ program
     console.log(await createProviderTable(stats));
     console.log(); // Add spacing
 
+    // Error rates: requests that ended in an upstream error, plus calls retried or failed over
+    const errorRates: Record<string, { requests: number; failed: number; statuses: Record<string, number>; failedAttempts: number }> = {};
+    entries.forEach(entry => {
+      const rate = (errorRates[entry.provider] ||= { requests: 0, failed: 0, statuses: {}, failedAttempts: 0 });
+      rate.requests += 1;
+      if (isFailedInteraction(entry)) {
+        rate.failed += 1;
+        const status = String(entry.status ?? 'error');
+        rate.statuses[status] = (rate.statuses[status] || 0) + 1;
+      }
+      (entry.attempts || []).forEach(attempt => {
+        (errorRates[attempt.provider] ||= { requests: 0, failed: 0, statuses: {}, failedAttempts: 0 }).failedAttempts += 1;
+      });
+    });
+    if (Object.values(errorRates).some(rate => rate.failed > 0 || rate.failedAttempts > 0)) {
+      const rows = Object.entries(errorRates)
+        .sort(([, a], [, b]) => b.failed - a.failed)
+        .map(([provider, rate]) => {
+          const percent = rate.requests > 0 ? `${((rate.failed / rate.requests) * 100).toFixed(1)}%` : '-';
+          const statuses = Object.entries(rate.statuses)
+            .sort(([, a], [, b]) => b - a)
+            .map(([status, count]) => `${status}×${count}`)
+            .join(' ');
+          return (
+            `${provider.padEnd(20)} ${String(rate.failed).padStart(4)}/${String(rate.requests).padEnd(5)} ${percent.padStart(6)}` +
+            `${rate.failedAttempts ? `  ${rate.failedAttempts} failed attempts` : ''}${statuses ? `  ${statuses}` : ''}`
+          );
+        });
+      console.log(createBox('🚨 Upstream Error Rates', rows, { borderColor: 'red', titleColor: 'red' }));
+      console.log(); // Add spacing
+    }
+
     // Generate and show cost chart with weekly trends
     const weeklyCosts = generateWeeklyCostTrends(interactions);
     if (weeklyCosts.some(cost => cost > 0)) {
@@ -439,6 +569,68 @@ program
       console.log(); // Add spacing
     }
 
+    // Per-user and per-team spend, once the proxy has attributed anything
+    for (const [field, title] of [['user', '👥 Spending by User'], ['team', '🏷️  Spending by Team']] as const) {
+      if (!interactions.some(interaction => interaction[field])) continue;
+      const rows = spendBreakdown(interactions, field).map(
+        ([name, entry]) =>
+          `${name.padEnd(28)} ${String(entry.requests).padStart(5)} req  $${entry.costUSD.toFixed(4).padStart(10)}  ${grandTotals.costUSD > 0 ? `${((entry.costUSD / grandTotals.costUSD) * 100).toFixed(1)}%` : ''}`
+      );
+      console.log(createBox(title, rows, { borderColor: 'cyan', titleColor: 'cyan' }));
+      console.log(); // Add spacing
+    }
+
+    // Embeddings, images, audio and batches next to chat, once the proxy has logged any
+    if (interactions.some(interaction => interaction.operation && interaction.operation !== 'chat')) {
+      const rows = operationBreakdown(interactions).map(([operation, entry]) => {
+        const usage =
+          operation === 'image'
+            ? `${entry.images} images`
+            : operation === 'audio'
+              ? `${(entry.audioSeconds / 60).toFixed(1)} min audio`
+              : `${entry.tokens.toLocaleString()} tokens`;
+        return (
+          `${operation.padEnd(12)} ${String(entry.requests).padStart(5)} req  ${usage.padEnd(18)} $${entry.costUSD.toFixed(4).padStart(10)}  ` +
+          `${grandTotals.costUSD > 0 ? `${((entry.costUSD / grandTotals.costUSD) * 100).toFixed(1)}%` : ''}`
+        );
+      });
+      console.log(createBox('🧩 Spending by Operation', rows, { borderColor: 'cyan', titleColor: 'cyan' }));
+      console.log(); // Add spacing
+    }
+
+    // Models whose cost was borrowed from the fallback price or not priced at all.
+    // Older log lines have no pricingSource, so check them against the current catalog.
+    const pricingCatalog = loadPricingCatalog();
+    const unpricedModels: Record<string, { requests: number; tokens: number; costUSD: number; source: string }> = {};
+    interactions.forEach(interaction => {
+      const model = interaction.model || 'unknown';
+      const source =
+        interaction.pricingSource ||
+        (interaction.model && findModelPricing(interaction.model, pricingCatalog) ? 'exact' : 'fallback');
+      if (source !== 'fallback' && source !== 'unknown') return;
+      const entry = (unpricedModels[model] ||= { requests: 0, tokens: 0, costUSD: 0, source });
+      entry.requests += 1;
+      entry.tokens += interaction.totalTokens || 0;
+      entry.costUSD += interaction.costUSD || 0;
+    });
+    if (Object.keys(unpricedModels).length > 0) {
+      const rows = Object.entries(unpricedModels)
+        .sort(([, a], [, b]) => b.tokens - a.tokens)
+        .map(
+          ([model, entry]) =>
+            `${model.padEnd(28)} ${String(entry.requests).padStart(5)} req ${entry.tokens.toLocaleString().padStart(12)} tokens  ${entry.source === 'unknown' ? 'not priced' : `est. $${entry.costUSD.toFixed(4)}`}`
+        );
+      rows.push('');
+      rows.push(`Add these models to ${PRICING_CATALOG_FILE} for accurate costs`);
+      console.log(
+        createBox('⚠️  Models Without Pricing', rows, {
+          borderColor: 'yellow',
+          titleColor: 'yellow',
+        })
+      );
+      console.log(); // Add spacing
+    }
+
     // Enhanced contextual insights with structured recommendations
     const avgQuality =
       grandTotals.codingCount > 0
@@ -727,6 +919,7 @@ program
             routePrefix: '/gemini',
             targetUrl:
               'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent',
+            format: 'gemini',
             apiKeyEnvVar: 'GEMINI_API_KEY',
             authHeader: 'x-goog-api-key',
             tokenMapping: {
@@ -750,6 +943,7 @@ program
         monthlyUSD: 50,
         perProviderMonthlyUSD: { 'Gemini-Pro': 30 },
         webhookUrl: '',
+        blockUnpricedModels: false,
       };
       fs.writeFileSync(policyPath, JSON.stringify(policy, null, 2));
       console.log(chalk.green(`Created ${policyPath}`));
@@ -807,24 +1001,115 @@ program
       monthlyUSD: 50,
       perProviderMonthlyUSD: { 'Gemini-Pro': 30 },
       webhookUrl: '',
+      blockUnpricedModels: false,
     };
     fs.writeFileSync(dest, JSON.stringify(fallback, null, 2));
     console.log(chalk.green(`Created ${dest}`));
   });
 
+program
+  .command('policy:test-alert')
+  .description('Send a sample budget alert through the channels configured in toknxr.policy.json')
+  .option('--channel <name>', 'Only this channel (by name, or type when unnamed)')
+  .option('--level <level>', 'Alert level to simulate: warn or exceeded', 'exceeded')
+  .action(async options => {
+    const policy = loadPolicy(process.cwd());
+    const channels = (policy ? alertChannels(policy) : []).filter(
+      channel => !options.channel || channelName(channel) === options.channel
+    );
+    if (channels.length === 0) {
+      console.log(
+        chalk.yellow(options.channel ? `No alert channel named "${options.channel}".` : 'No alert channels configured in toknxr.policy.json.')
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const level: AlertLevel = options.level === 'warn' ? 'warn' : 'exceeded';
+    const sample: BudgetStatus = {
+      rule: { name: 'test', window: 'monthly', limitUSD: 100, warnAtPercent: 80 },
+      label: 'test: total (monthly)',
+      spentUSD: level === 'warn' ? 85 : 105,
+      limitUSD: 100,
+      state: level,
+    };
+    const alert = buildBudgetAlert([sample], { test: true, monthKey: currentMonthKey() })!;
+
+    console.log(chalk.gray(`Sending a test ${level} alert to ${channels.length} channel(s)...`));
+    const results = await dispatchAlert(channels, alert);
+    results.forEach(result => {
+      if (result.skipped) console.log(`${chalk.gray('–')} ${result.channel} ${chalk.gray(`(not subscribed to ${level} alerts)`)}`);
+      else if (result.ok) console.log(`${chalk.green('✓')} ${result.channel}`);
+      else console.log(`${chalk.red('✗')} ${result.channel}: ${result.error}`);
+    });
+    if (results.some(result => !result.ok)) process.exitCode = 1;
+  });
+
+program
+  .command('keys:create')
+  .description(`Issue a proxy key for a developer (stored hashed in ${PROXY_KEYS_FILE})`)
+  .argument('<name>', 'Who the key is for, e.g. an email address')
+  .option('--team <team>', 'Team the key owner belongs to')
+  .action((name: string, options) => {
+    const store = ProxyKeyStore.load();
+    const { record, key } = store.create(name, options.team);
+    store.save();
+    console.log(chalk.green(`Created proxy key ${record.id} for ${name}.`));
+    console.log(chalk.bold(key));
+    console.log(chalk.yellow('Copy it now; it is not stored and cannot be shown again.'));
+    console.log(chalk.gray('Clients send it in the X-Toknxr-Key header (or Authorization: Bearer).'));
+  });
+
+program
+  .command('keys:list')
+  .description('List proxy keys')
+  .option('--all', 'Include revoked keys')
+  .action(options => {
+    const store = ProxyKeyStore.load();
+    const keys = options.all ? store.list() : store.active();
+    if (keys.length === 0) {
+      console.log(chalk.yellow(`No ${options.all ? '' : 'active '}proxy keys. Create one with \`toknxr keys:create <name>\`.`));
+      return;
+    }
+    console.log(chalk.blue.bold('🔑 Proxy Keys'));
+    console.log(chalk.gray('━'.repeat(60)));
+    for (const key of keys) {
+      const status = key.revokedAt
+        ? chalk.red(`revoked ${new Date(key.revokedAt).toLocaleDateString()}`)
+        : chalk.green('active');
+      console.log(`${chalk.cyan(key.id)}  ${key.name.padEnd(28)} ${(key.team || '-').padEnd(14)} created ${new Date(key.createdAt).toLocaleDateString()}  ${status}`);
+    }
+  });
+
+program
+  .command('keys:revoke')
+  .description('Revoke a proxy key; a running proxy rejects it immediately')
+  .argument('<idOrName>', 'Key id, or the name it was issued to')
+  .action((idOrName: string) => {
+    const store = ProxyKeyStore.load();
+    const revoked = store.revoke(idOrName);
+    if (!revoked) {
+      console.error(chalk.red(`No active proxy key matches "${idOrName}". Use \`toknxr keys:list\` to see key ids.`));
+      process.exitCode = 1;
+      return;
+    }
+    store.save();
+    console.log(chalk.green(`Revoked proxy key ${revoked.id} (${revoked.name}).`));
+  });
+
 program
   .command('code-analysis')
   .description('Show detailed code quality analysis from coding interactions')
   .action(() => {
     const logFilePath = path.resolve(process.cwd(), 'interactions.log');
-    if (!fs.existsSync(logFilePath)) {
+    if (!hasInteractionLog(logFilePath)) {
       console.log(
         chalk.yellow('No interactions logged yet. Use the `start` command to begin tracking.')
       );
       return;
     }
 
-    const fileContent = fs.readFileSync(logFilePath, 'utf8');
+    const fileContent = readInteractionLog(logFilePath);
     const lines = fileContent.trim().split('\n');
     const interactions: Interaction[] = lines
       .map(line => {
@@ -946,9 +1231,42 @@ program
 program
   .command('login')
   .description('Authenticate with your TokNxr account')
-  .action(async () => {
+  .option('--device', 'Log in without a local browser by confirming a code on another device')
+  .option('--port <n>', 'Port for the local login callback (default: a random free port)')
+  .option('--timeout <seconds>', 'Give up if the browser has not completed login in time', '300')
+  .action(async options => {
     console.log(chalk.blue('Starting CLI authentication process...'));
-    await login();
+    if (options.device) {
+      await loginWithDeviceCode(supabase());
+    } else {
+      await login(supabase(), {
+        port: options.port !== undefined ? parseInt(options.port) : undefined,
+        timeoutSeconds: parseInt(options.timeout) || undefined,
+      });
+    }
+  });
+
+program
+  .command('api-token:create')
+  .description('Create an API token for CI (use it as TOKNXR_API_TOKEN)')
+  .requiredOption('--project <nameOrId>', 'Project `toknxr sync` uploads to by default')
+  .option('--days <n>', 'Days until the token expires (max 90)', '30')
+  .action(async options => {
+    await createApiToken(supabase(), options.project, parseInt(options.days) || 30);
+  });
+
+program
+  .command('logout')
+  .description('Remove the stored CLI credentials')
+  .action(async () => {
+    await logout();
+  });
+
+program
+  .command('whoami')
+  .description('Show the logged-in user, token expiry and organization')
+  .action(async () => {
+    await whoami(supabase());
   });
 
 // Import required modules for new AI analysis commands
@@ -1183,6 +1501,12 @@ program
           `  Dev Time Wasted: ${chalk.yellow(`${stats.businessImpact.estimatedDevTimeWasted}h`)}`
         );
       }
+
+      const users = Object.entries(stats.costByUser).sort(([, a], [, b]) => b - a);
+      if (users.some(([user]) => user !== 'unattributed')) {
+        const top = users.slice(0, 5).map(([user, cost]) => `${user} $${cost.toFixed(4)}`);
+        console.log(`  Spend by User: ${top.join(', ')}${users.length > 5 ? chalk.gray(` (+${users.length - 5} more)`) : ''}`);
+      }
     });
 
     // Find best and worst performers
@@ -1234,7 +1558,7 @@ program
   .option('-s, --size <size>', 'Page size (10/25/50)', '10')
   .action(async options => {
     const logFilePath = path.resolve(process.cwd(), 'interactions.log');
-    if (!fs.existsSync(logFilePath)) {
+    if (!hasInteractionLog(logFilePath)) {
       console.log(
         chalk.yellow('No interactions logged yet. Start tracking with: ') +
           chalk.cyan('toknxr start')
@@ -1242,7 +1566,7 @@ program
       return;
     }
 
-    const fileContent = fs.readFileSync(logFilePath, 'utf8');
+    const fileContent = readInteractionLog(logFilePath);
     const lines = fileContent.trim().split('\n');
     const interactions: Interaction[] = lines
       .map(line => {
@@ -1385,12 +1709,12 @@ program
       }
 
       const logFilePath = path.resolve(process.cwd(), 'interactions.log');
-      if (!fs.existsSync(logFilePath)) {
+      if (!hasInteractionLog(logFilePath)) {
         console.log(chalk.yellow('No interactions logged yet.'));
         return;
       }
 
-      const fileContent = fs.readFileSync(logFilePath, 'utf8');
+      const fileContent = readInteractionLog(logFilePath);
       const lines = fileContent.trim().split('\n');
       const interactions: Interaction[] = lines
         .map(line => {
@@ -1531,6 +1855,33 @@ program
         });
       }
 
+      const logFilePath = path.resolve(process.cwd(), 'interactions.log');
+      const policy = loadPolicy(process.cwd());
+      const rules = policy ? budgetRules(policy) : [];
+      if (rules.length > 0) {
+        console.log(chalk.bold('\nPolicy Budgets (toknxr.policy.json):'));
+        budgetOverview(rules, SpendAggregate.fromRecords(readSpendRecords(logFilePath))).forEach(status => {
+          const percent = status.limitUSD > 0 ? (status.spentUSD / status.limitUSD) * 100 : 0;
+          const color = status.state === 'exceeded' ? chalk.red : status.state === 'warn' ? chalk.yellow : chalk.green;
+          const action = (status.rule.action || 'block') === 'block' ? 'blocks' : 'warns';
+          console.log(
+            `${color('●')} ${status.label.padEnd(40)} ${color(`$${status.spentUSD.toFixed(2)}`)} / $${status.limitUSD.toFixed(2)}` +
+              chalk.gray(`  ${percent.toFixed(0)}%, ${action} over limit${status.rule.warnAtPercent !== undefined ? `, warns at ${status.rule.warnAtPercent}%` : ''}`)
+          );
+        });
+      }
+
+      const monthKey = currentMonthKey();
+      const spend = computeMonthlySpend(logFilePath, monthKey);
+      for (const [label, totals] of [['User', spend.byUser], ['Team', spend.byTeam]] as const) {
+        const entries = Object.entries(totals).sort(([, a], [, b]) => b - a);
+        if (entries.length === 0) continue;
+        console.log(chalk.bold(`\nSpend by ${label} (${monthKey}):`));
+        entries.forEach(([name, cost]) => {
+          console.log(`${label === 'User' ? '👤' : '👥'} ${name}: ${chalk.cyan(`$${cost.toFixed(2)}`)}`);
+        });
+      }
+
       console.log(chalk.bold('\n💡 Budget Commands:'));
       console.log(
         `  ${chalk.yellow('toknxr budget --set 75')}                   - Set monthly budget`
@@ -1541,6 +1892,193 @@ program
     }
   });
 
+program
+  .command('pricing')
+  .description('List, validate, diff and re-apply the model pricing catalog')
+  .option('--validate', `Validate ${PRICING_CATALOG_FILE}`)
+  .option('--diff <file>', 'Compare current prices with another catalog file')
+  .option('--reprice', 'Recalculate logged costs using the price in effect at each timestamp')
+  .option('--write', 'With --reprice, rewrite interactions.log and its rotated segments with the recalculated costs')
+  .option('--init', `Create ${PRICING_CATALOG_FILE} from the built-in prices`)
+  .action(options => {
+    const catalogPath = path.resolve(process.cwd(), PRICING_CATALOG_FILE);
+
+    if (options.init) {
+      if (fs.existsSync(catalogPath)) {
+        console.log(chalk.yellow(`Skipped ${catalogPath} (exists)`));
+        return;
+      }
+      const catalog = { ...builtInPricingCatalog(), version: '1', updatedAt: new Date().toISOString().split('T')[0] };
+      fs.writeFileSync(catalogPath, JSON.stringify(catalog, null, 2));
+      console.log(chalk.green(`Created ${catalogPath}`));
+      return;
+    }
+
+    if (options.validate) {
+      if (!fs.existsSync(catalogPath)) {
+        console.log(chalk.yellow(`No ${PRICING_CATALOG_FILE} found. Built-in prices are in use.`));
+        return;
+      }
+      let errors: string[];
+      try {
+        errors = validatePricingCatalog(readPricingCatalogFile(catalogPath));
+      } catch (error) {
+        errors = [`Could not parse file: ${error instanceof Error ? error.message : String(error)}`];
+      }
+      if (errors.length === 0) {
+        console.log(chalk.green(`✅ ${PRICING_CATALOG_FILE} is valid`));
+      } else {
+        console.log(chalk.red(`❌ ${PRICING_CATALOG_FILE} has ${errors.length} problem(s):`));
+        errors.forEach(error => console.log(`  • ${error}`));
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    if (options.diff) {
+      const otherPath = path.resolve(process.cwd(), options.diff);
+      if (!fs.existsSync(otherPath)) {
+        console.log(chalk.red(`❌ File not found: ${otherPath}`));
+        return;
+      }
+      const changes = diffPricingCatalogs(
+        loadPricingCatalog(),
+        mergeWithBuiltInPricing(readPricingCatalogFile(otherPath))
+      );
+      console.log(chalk.bold.blue(`💲 Pricing diff: current → ${options.diff}`));
+      console.log(chalk.gray('━'.repeat(50)));
+      if (changes.length === 0) {
+        console.log(chalk.green('No price changes.'));
+      }
+      changes.forEach(change => {
+        const color = change.startsWith('+') ? chalk.green : change.startsWith('-') ? chalk.red : chalk.yellow;
+        console.log(color(`  ${change}`));
+      });
+      return;
+    }
+
+    if (options.reprice) {
+      const logFilePath = interactionLogPath();
+      const segments = listLogSegments(logFilePath);
+      if (segments.length === 0) {
+        console.log(chalk.yellow('No interactions logged yet.'));
+        return;
+      }
+
+      const byModel: Record<string, { count: number; before: number; after: number }> = {};
+      const reprice = (line: string): string => {
+        try {
+          const interaction = JSON.parse(line);
+          const { costUSD, pricingSource } = estimateCost(
+            interaction.model,
+            interaction.promptTokens || 0,
+            interaction.completionTokens || 0,
+            {
+              cachedPromptTokens: interaction.cachedPromptTokens,
+              reasoningTokens: interaction.reasoningTokens,
+              operation: interaction.operation,
+              images: interaction.images,
+              imageSize: interaction.imageSize,
+              imageQuality: interaction.imageQuality,
+              audioSeconds: interaction.audioSeconds,
+              batch: interaction.operation === 'batch',
+              at: interaction.timestamp,
+            }
+          );
+          const entry = (byModel[interaction.model] ||= { count: 0, before: 0, after: 0 });
+          entry.count++;
+          entry.before += interaction.costUSD || 0;
+          entry.after += costUSD;
+          return JSON.stringify({ ...interaction, costUSD, pricingSource });
+        } catch {
+          return line;
+        }
+      };
+
+      // Rotated and compressed segments are re-priced too, oldest first
+      let failed = 0;
+      for (const segment of segments) {
+        try {
+          if (options.write) {
+            rewriteLogSegment(segment, reprice);
+          } else {
+            readLogSegment(segment).toString('utf8').split('\n').filter(Boolean).forEach(reprice);
+          }
+        } catch (error) {
+          console.error(chalk.red(`Could not re-price ${segment.path}: ${error instanceof Error ? error.message : error}`));
+          failed++;
+          process.exitCode = 1;
+        }
+      }
+
+      console.log(chalk.bold.blue('💲 Re-priced Interactions'));
+      console.log(chalk.gray('━'.repeat(50)));
+      let before = 0;
+      let after = 0;
+      Object.entries(byModel).forEach(([model, entry]) => {
+        before += entry.before;
+        after += entry.after;
+        const delta = entry.after - entry.before;
+        const deltaText = `${delta >= 0 ? '+' : ''}$${delta.toFixed(4)}`;
+        console.log(
+          `  ${model.padEnd(28)} ${String(entry.count).padStart(6)} req  $${entry.before.toFixed(4)} → $${entry.after.toFixed(4)} (${Math.abs(delta) < 0.00005 ? chalk.gray(deltaText) : chalk.yellow(deltaText)})`
+        );
+      });
+      console.log(chalk.bold(`\n  Total: $${before.toFixed(4)} → $${after.toFixed(4)}`));
+
+      if (options.write) {
+        console.log(chalk.green(`✅ Updated costs written to ${segments.length - failed} of ${segments.length} log segment(s)`));
+      } else {
+        console.log(chalk.gray(`\nDry run. Use ${chalk.cyan('toknxr pricing --reprice --write')} to save.`));
+      }
+      return;
+    }
+
+    // Default: list the effective catalog
+    const catalog = loadPricingCatalog();
+    console.log(chalk.bold.blue('💲 Model Pricing Catalog'));
+    console.log(chalk.gray('━'.repeat(50)));
+    console.log(
+      chalk.gray(
+        fs.existsSync(catalogPath)
+          ? `Source: ${PRICING_CATALOG_FILE} (version ${catalog.version}) merged over built-in prices`
+          : `Source: built-in prices (run ${chalk.cyan('toknxr pricing --init')} to customize)`
+      )
+    );
+    console.log(
+      chalk.gray(
+        catalog.fallbackModel === null
+          ? 'Unrecognised models: left unpriced'
+          : `Unrecognised models: priced as ${catalog.fallbackModel ?? 'gemini-2.5-flash'}`
+      )
+    );
+    console.log(
+      `\n${chalk.bold('Model'.padEnd(24))} ${chalk.bold('Prompt/1M'.padStart(10))} ${chalk.bold('Output/1M'.padStart(10))} ${chalk.bold('Cached/1M'.padStart(10))}  ${chalk.bold('Since')}`
+    );
+    Object.entries(catalog.models)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([model, entry]) => {
+        const current = priceAt(entry);
+        if (!current) return;
+        const cached = current.cachedPromptPer1M !== undefined ? `$${current.cachedPromptPer1M}` : '-';
+        console.log(
+          `${model.padEnd(24)} ${`$${current.promptPer1M ?? 0}`.padStart(10)} ${`$${current.completionPer1M ?? 0}`.padStart(10)} ${cached.padStart(10)}  ${current.effectiveFrom}${entry.history.length > 1 ? chalk.gray(` (+${entry.history.length - 1} earlier)`) : ''}`
+        );
+        const perUnit = [
+          ...(current.perImage !== undefined ? [`$${current.perImage}/image`] : []),
+          ...Object.entries(current.perImageBySize || {}).map(([size, price]) => `$${price}/image ${size}`),
+          ...(current.perSecond !== undefined ? [`$${current.perSecond}/second of audio`] : []),
+          ...(current.embeddingPer1M !== undefined ? [`$${current.embeddingPer1M} embeddings/1M`] : []),
+        ];
+        if (perUnit.length) {
+          console.log(chalk.gray(`  ${perUnit.join(', ')}`));
+        }
+        if (entry.aliases?.length) {
+          console.log(chalk.gray(`  aliases: ${entry.aliases.join(', ')}`));
+        }
+      });
+  });
+
 // Phase 5: Enterprise Audit Logging Commands
 program
   .command('audit:init')
@@ -1583,7 +2121,7 @@ program
   .option('-u, --user <userId>', 'Filter by user ID')
   .option('-r, --risk <level>', 'Filter by risk level (low/medium/high/critical)')
   .option('-f, --from <date>', 'Filter events from date (ISO format)')
-  .option('-to, --to <date>', 'Filter events to date (ISO format)')
+  .option('--to <date>', 'Filter events to date (ISO format)')
   .option('-l, --limit <number>', 'Limit number of results', '50')
   .action(options => {
     try {
@@ -1775,7 +2313,7 @@ program
   .option('-t, --type <eventType>', 'Filter by event type')
   .option('-u, --user <userId>', 'Filter by user ID')
   .option('-f, --from <date>', 'Filter events from date (ISO format)')
-  .option('-to, --to <date>', 'Filter events to date (ISO format)')
+  .option('--to <date>', 'Filter events to date (ISO format)')
   .action((format, options) => {
     try {
       const events = auditLogger.query({
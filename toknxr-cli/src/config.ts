@@ -5,6 +5,6 @@ export const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || 'eyJhbGciOiJIUzI
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-export const setAuthToken = (token: string) => {
-  supabase.auth.setSession({ access_token: token, refresh_token: '' });
+export const setAuthToken = (token: string, refreshToken: string = '') => {
+  supabase.auth.setSession({ access_token: token, refresh_token: refreshToken });
 };
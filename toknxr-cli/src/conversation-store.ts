@@ -0,0 +1,87 @@
+/**
+ * In-memory store of recent conversation turns, keyed by a client-supplied
+ * conversation id (the `X-Toknxr-Conversation-Id` header). Lets the proxy give
+ * the hallucination detector session context even when a client only sends
+ * the latest message.
+ */
+
+export const CONVERSATION_ID_HEADER = 'x-toknxr-conversation-id';
+
+interface ConversationSession {
+  turns: string[];
+  updatedAt: number;
+}
+
+export interface ConversationStoreOptions {
+  maxTurns: number; // turns kept per conversation
+  ttlMs: number; // idle time before a conversation is forgotten
+  maxConversations: number;
+}
+
+export class ConversationStore {
+  private sessions: Map<string, ConversationSession> = new Map();
+  private options: ConversationStoreOptions;
+
+  constructor(options: Partial<ConversationStoreOptions> = {}) {
+    this.options = {
+      maxTurns: 20,
+      ttlMs: 2 * 60 * 60 * 1000,
+      maxConversations: 500,
+      ...options,
+    };
+  }
+
+  /**
+   * Turns recorded for a conversation, oldest first
+   */
+  getTurns(conversationId: string): string[] {
+    this.prune();
+    return [...(this.sessions.get(conversationId)?.turns || [])];
+  }
+
+  /**
+   * Record new turns (typically the user prompt and the AI response)
+   */
+  append(conversationId: string, turns: string[]): void {
+    const session = this.sessions.get(conversationId) || { turns: [], updatedAt: 0 };
+    session.turns.push(...turns.filter(Boolean));
+    session.turns = session.turns.slice(-this.options.maxTurns);
+    session.updatedAt = Date.now();
+
+    // Re-insert so Map iteration order stays least-recently-used first
+    this.sessions.delete(conversationId);
+    this.sessions.set(conversationId, session);
+    this.prune();
+  }
+
+  clear(conversationId?: string): void {
+    if (conversationId) this.sessions.delete(conversationId);
+    else this.sessions.clear();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.ttlMs;
+    for (const [id, session] of this.sessions) {
+      if (session.updatedAt < cutoff) this.sessions.delete(id);
+    }
+    while (this.sessions.size > this.options.maxConversations) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) break;
+      this.sessions.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Merge turns remembered for a session with the prior turns sent in the request body.
+ * Turns the client re-sent are not duplicated.
+ */
+export function mergeConversationContext(storedTurns: string[], requestTurns: string[]): string[] {
+  const seen = new Set(requestTurns);
+  return [...storedTurns.filter(turn => !seen.has(turn)), ...requestTurns];
+}
+
+/**
+ * Global conversation store used by the proxy
+ */
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,54 @@
+import { estimateCost, PricingSource } from './pricing.js';
+import { NormalizedConversation, ProviderAdapter } from './provider-adapters.js';
+
+/**
+ * Worst-case cost of a request before it is sent, for budget enforcement.
+ *
+ * Prompt tokens are estimated from the text of the request (about four characters
+ * per token); output is assumed to use the request's whole output limit, or
+ * `defaultMaxOutputTokens` when the request sets none.
+ */
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+const CHARS_PER_TOKEN = 4;
+
+export interface CostProjection {
+  model: string;
+  estimatedPromptTokens: number;
+  maxOutputTokens: number;
+  worstCaseUSD: number;
+  pricingSource: PricingSource;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimated prompt tokens of a whole conversation, system prompt included
+ */
+export function estimateConversationTokens(conversation: NormalizedConversation): number {
+  return estimateTokens([conversation.system || '', ...conversation.messages.map(message => message.content)].join('\n'));
+}
+
+export function projectRequestCost(
+  adapter: ProviderAdapter,
+  requestData: any,
+  targetUrl: string,
+  options: { model?: string; defaultMaxOutputTokens?: number } = {}
+): CostProjection {
+  const conversation = adapter.normalizeRequest(requestData, targetUrl);
+  const model = options.model || conversation.model || 'unknown';
+  const estimatedPromptTokens = estimateConversationTokens(conversation);
+  const maxOutputTokens =
+    adapter.maxOutputTokens?.(requestData) ?? options.defaultMaxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+  const cost = estimateCost(model, estimatedPromptTokens, maxOutputTokens);
+  return {
+    model,
+    estimatedPromptTokens,
+    maxOutputTokens,
+    worstCaseUSD: cost.costUSD,
+    pricingSource: cost.pricingSource,
+  };
+}
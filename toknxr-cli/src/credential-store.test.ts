@@ -0,0 +1,67 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getCredentialStore } from './credential-store.js';
+
+let dir: string;
+const initialEnv = { ...process.env };
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-credentials-'));
+  process.env.TOKNXR_CONFIG_DIR = dir;
+  process.env.TOKNXR_CREDENTIAL_STORE = 'file';
+  delete process.env.TOKNXR_CREDENTIALS_PASSPHRASE;
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  process.env = { ...initialEnv };
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const credentialsFile = () => path.join(dir, 'credentials.enc');
+
+test('the file store round-trips a value, encrypted with a key file only the user can read', async () => {
+  const store = await getCredentialStore();
+  assert.equal(store.name, 'file');
+  assert.equal(await store.get(), null);
+
+  await store.set('{"accessToken":"secret-token"}');
+  assert.equal(await store.get(), '{"accessToken":"secret-token"}');
+  assert.ok(!fs.readFileSync(credentialsFile(), 'utf8').includes('secret-token'));
+  assert.equal(fs.statSync(credentialsFile()).mode & 0o777, 0o600);
+  assert.equal(fs.statSync(path.join(dir, 'credentials.key')).mode & 0o777, 0o600);
+
+  assert.equal(await store.delete(), true);
+  assert.equal(await store.delete(), false);
+  assert.equal(await store.get(), null);
+});
+
+test('the file store uses TOKNXR_CREDENTIALS_PASSPHRASE instead of a key file when set', async () => {
+  process.env.TOKNXR_CREDENTIALS_PASSPHRASE = 'correct horse';
+  const store = await getCredentialStore();
+  await store.set('token');
+  assert.equal(await store.get(), 'token');
+  assert.equal(fs.existsSync(path.join(dir, 'credentials.key')), false);
+});
+
+test('the file store reads nothing back with the wrong key or a corrupt file', async () => {
+  const error = mock.method(console, 'error', () => {});
+  process.env.TOKNXR_CREDENTIALS_PASSPHRASE = 'correct horse';
+  const store = await getCredentialStore();
+  await store.set('token');
+
+  process.env.TOKNXR_CREDENTIALS_PASSPHRASE = 'battery staple';
+  assert.equal(await store.get(), null);
+
+  process.env.TOKNXR_CREDENTIALS_PASSPHRASE = 'correct horse';
+  const saved = JSON.parse(fs.readFileSync(credentialsFile(), 'utf8'));
+  fs.writeFileSync(credentialsFile(), JSON.stringify({ ...saved, data: Buffer.from('tampered').toString('base64') }));
+  assert.equal(await store.get(), null);
+
+  fs.writeFileSync(credentialsFile(), '{not json');
+  assert.equal(await store.get(), null);
+  assert.equal(error.mock.callCount(), 3);
+});
@@ -0,0 +1,115 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+
+/**
+ * Where the CLI keeps its credentials. The OS keychain (via keytar) is preferred;
+ * machines without one (CI runners, containers) fall back to an encrypted file.
+ */
+export interface CredentialStore {
+  name: 'keychain' | 'file';
+  get(): Promise<string | null>;
+  set(value: string): Promise<void>;
+  delete(): Promise<boolean>;
+}
+
+const SERVICE_NAME = 'toknxr-cli'; // A unique name for our service in the keychain
+const ACCOUNT_NAME = 'default-user'; // A generic account name for the stored token
+
+const credentialsDir = () => process.env.TOKNXR_CONFIG_DIR || path.join(os.homedir(), '.toknxr');
+
+type Keytar = typeof import('keytar');
+
+let keytarModule: Promise<Keytar | null> | null = null;
+
+// keytar is a native module; load it lazily so a missing build or keychain is not fatal
+const loadKeytar = (): Promise<Keytar | null> => {
+  keytarModule ||= import('keytar')
+    .then(async mod => {
+      const keytar = ((mod as { default?: Keytar }).default || mod) as Keytar;
+      await keytar.findCredentials(SERVICE_NAME); // throws when no keychain service is running
+      return keytar;
+    })
+    .catch(() => null);
+  return keytarModule;
+};
+
+const keychainStore = (keytar: Keytar): CredentialStore => ({
+  name: 'keychain',
+  get: () => keytar.getPassword(SERVICE_NAME, ACCOUNT_NAME),
+  set: value => keytar.setPassword(SERVICE_NAME, ACCOUNT_NAME, value),
+  delete: () => keytar.deletePassword(SERVICE_NAME, ACCOUNT_NAME),
+});
+
+/**
+ * AES-256-GCM encrypted file. The key comes from TOKNXR_CREDENTIALS_PASSPHRASE when
+ * set, otherwise from a random key file readable only by the current user.
+ */
+const fileStore = (): CredentialStore => {
+  const dir = credentialsDir();
+  const credentialsPath = path.join(dir, 'credentials.enc');
+  const keyPath = path.join(dir, 'credentials.key');
+
+  const encryptionKey = (salt: Buffer): Buffer => {
+    const passphrase = process.env.TOKNXR_CREDENTIALS_PASSPHRASE;
+    if (passphrase) return scryptSync(passphrase, salt, 32);
+    if (!fs.existsSync(keyPath)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(keyPath, randomBytes(32).toString('hex'), { mode: 0o600 });
+    }
+    return scryptSync(fs.readFileSync(keyPath, 'utf8').trim(), salt, 32);
+  };
+
+  return {
+    name: 'file',
+    async get() {
+      if (!fs.existsSync(credentialsPath)) return null;
+      try {
+        const { salt, iv, tag, data } = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
+        const decipher = createDecipheriv('aes-256-gcm', encryptionKey(Buffer.from(salt, 'hex')), Buffer.from(iv, 'hex'));
+        decipher.setAuthTag(Buffer.from(tag, 'hex'));
+        return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+      } catch (error) {
+        console.error(`Could not decrypt ${credentialsPath}; log in again to replace it:`, error);
+        return null;
+      }
+    },
+    async set(value) {
+      const salt = randomBytes(16);
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', encryptionKey(salt), iv);
+      const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      const payload = {
+        version: 1,
+        salt: salt.toString('hex'),
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        data: data.toString('base64'),
+      };
+      fs.writeFileSync(credentialsPath, JSON.stringify(payload), { mode: 0o600 });
+    },
+    async delete() {
+      if (!fs.existsSync(credentialsPath)) return false;
+      fs.unlinkSync(credentialsPath);
+      return true;
+    },
+  };
+};
+
+/**
+ * Pick the credential store: TOKNXR_CREDENTIAL_STORE=keychain|file forces one,
+ * otherwise the keychain is used when available.
+ */
+export async function getCredentialStore(): Promise<CredentialStore> {
+  const preference = process.env.TOKNXR_CREDENTIAL_STORE;
+  if (preference === 'file') return fileStore();
+
+  const keytar = await loadKeytar();
+  if (keytar) return keychainStore(keytar);
+  if (preference === 'keychain') {
+    throw new Error('TOKNXR_CREDENTIAL_STORE=keychain is set but no system keychain is available.');
+  }
+  return fileStore();
+}
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  backoffMs,
+  fallbackTarget,
+  isRetriableStatus,
+  parseRetryAfter,
+  validateFallbacks,
+  ProviderCooldowns,
+} from './failover.js';
+
+test('isRetriableStatus covers timeouts, rate limits and server errors', () => {
+  assert.deepEqual([408, 429, 500, 503].map(isRetriableStatus), [true, true, true, true]);
+  assert.deepEqual([400, 401, 404, 422].map(isRetriableStatus), [false, false, false, false]);
+});
+
+test('parseRetryAfter reads seconds or an HTTP date', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  assert.equal(parseRetryAfter('2', now), 2000);
+  assert.equal(parseRetryAfter(['5'], now), 5000);
+  assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now), 30_000);
+  assert.equal(parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT', now), 0);
+  assert.equal(parseRetryAfter('soon', now), undefined);
+  assert.equal(parseRetryAfter(undefined, now), undefined);
+});
+
+test('backoffMs grows per attempt and then stays at its longest step', () => {
+  assert.deepEqual([0, 1, 2, 3, 9].map(backoffMs), [300, 600, 1200, 1200, 1200]);
+});
+
+test('fallbackTarget and validateFallbacks accept names or provider/model pairs', () => {
+  assert.deepEqual(fallbackTarget('Anthropic'), { provider: 'Anthropic' });
+  assert.deepEqual(fallbackTarget({ provider: 'OpenAI', model: 'gpt-4o' }), { provider: 'OpenAI', model: 'gpt-4o' });
+  assert.deepEqual(
+    validateFallbacks([
+      { name: 'OpenAI', fallback: ['Anthropic', { provider: 'Mistral' }] },
+      { name: 'Anthropic' },
+    ]),
+    ['OpenAI: unknown fallback provider "Mistral"']
+  );
+});
+
+test('ProviderCooldowns keeps the longest cooldown until it passes', () => {
+  const cooldowns = new ProviderCooldowns();
+  cooldowns.set('OpenAI', 10_000, 0);
+  cooldowns.set('OpenAI', 1_000, 0);
+  assert.equal(cooldowns.remaining('OpenAI', 4_000), 6_000);
+  assert.equal(cooldowns.remaining('OpenAI', 10_000), 0);
+  assert.equal(cooldowns.remaining('Anthropic', 0), 0);
+});
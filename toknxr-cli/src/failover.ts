@@ -0,0 +1,95 @@
+/**
+ * Failover between providers (`fallback` on a provider and `failover` in toknxr.config.json).
+ *
+ * An upstream that answers 5xx or 429, or does not answer in time, is retried and
+ * then the next provider in the chain is tried. A `Retry-After` longer than the
+ * proxy is willing to wait puts the provider on cooldown, so later requests go
+ * straight to the next one until it has passed.
+ */
+
+export interface FailoverConfig {
+  retries?: number; // extra attempts against the same provider before moving on (default 3)
+  timeoutSeconds?: number; // per attempt (default 20)
+  maxRetryAfterSeconds?: number; // longest Retry-After to wait out in place (default 10)
+}
+
+/**
+ * A provider to fall back to, by name; `model` is needed when its format differs
+ * and the model is not part of its URL
+ */
+export type FallbackTarget = string | { provider: string; model?: string };
+
+/**
+ * One attempt that did not produce a usable response, as logged
+ */
+export interface UpstreamAttempt {
+  provider: string;
+  model?: string;
+  status?: number;
+  error?: string; // network error or timeout
+  retryAfterSeconds?: number;
+  durationMs: number;
+}
+
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_TIMEOUT_SECONDS = 20;
+export const DEFAULT_MAX_RETRY_AFTER_SECONDS = 10;
+const BACKOFF_MS = [300, 600, 1200];
+
+export const fallbackTarget = (target: FallbackTarget): { provider: string; model?: string } =>
+  typeof target === 'string' ? { provider: target } : target;
+
+/**
+ * Statuses worth trying again, here or elsewhere: overload, rate limits and server errors
+ */
+export const isRetriableStatus = (status: number): boolean => status === 429 || status === 408 || status >= 500;
+
+/**
+ * Retry-After as milliseconds; it is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  const text = Array.isArray(value) ? value[0] : value;
+  if (typeof text !== 'string' && typeof text !== 'number') return undefined;
+  const seconds = Number(text);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(text));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export const backoffMs = (attempt: number): number => BACKOFF_MS[Math.min(attempt, BACKOFF_MS.length - 1)];
+
+/**
+ * Problems with fallback chains that would make them fail at request time
+ */
+export function validateFallbacks(providers: Array<{ name: string; fallback?: FallbackTarget[] }>): string[] {
+  const names = new Set(providers.map(provider => provider.name));
+  return providers.flatMap(provider =>
+    (provider.fallback || [])
+      .map(fallbackTarget)
+      .filter(target => !names.has(target.provider))
+      .map(target => `${provider.name}: unknown fallback provider "${target.provider}"`)
+  );
+}
+
+/**
+ * Providers that asked to be left alone (Retry-After), shared by all requests
+ */
+export class ProviderCooldowns {
+  private until = new Map<string, number>();
+
+  set(provider: string, ms: number, now: number = Date.now()): void {
+    this.until.set(provider, Math.max(this.until.get(provider) || 0, now + ms));
+  }
+
+  /**
+   * Milliseconds left on a provider's cooldown, 0 when it is available
+   */
+  remaining(provider: string, now: number = Date.now()): number {
+    const until = this.until.get(provider) || 0;
+    if (until <= now) {
+      this.until.delete(provider);
+      return 0;
+    }
+    return until - now;
+  }
+}
@@ -148,7 +148,7 @@ export class HallucinationDetector {
   /**
    * Detect internal contradictions
    */
-  private detectContradictions(response: string, _context?: string[]): HallucinationEvidence[] {
+  private detectContradictions(response: string, context?: string[]): HallucinationEvidence[] {
     const evidence: HallucinationEvidence[] = [];
 
     // Look for contradictory statements
@@ -171,9 +171,55 @@ export class HallucinationDetector {
       }
     });
 
+    // Statements that flip the polarity of something said earlier in the conversation
+    if (context && context.length > 0) {
+      const earlierStatements = context.flatMap(turn => this.splitStatements(turn));
+      const flipped = this.splitStatements(response).find(statement =>
+        earlierStatements.some(earlier =>
+          earlier.negated !== statement.negated && this.wordOverlap(earlier.words, statement.words) >= 0.8
+        )
+      );
+      if (flipped) {
+        evidence.push({
+          type: 'contradiction',
+          description: 'Response contradicts an earlier turn in the conversation',
+          severity: 9,
+          context: flipped.text
+        });
+      }
+    }
+
     return evidence;
   }
 
+  /**
+   * Split text into statements, recording their wording without negations
+   */
+  private splitStatements(text: string): Array<{ words: Set<string>; negated: boolean; text: string }> {
+    const negation = /\b(not|never|no)\b|n't\b/;
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean)
+      .map(sentence => {
+        const normalized = sentence.toLowerCase().replace(/[^a-z0-9' ]+/g, ' ');
+        const words = normalized.replace(new RegExp(negation, 'g'), ' ').split(/\s+/).filter(Boolean);
+        return { words: new Set(words), negated: negation.test(normalized), text: sentence };
+      })
+      .filter(statement => statement.words.size >= 4);
+  }
+
+  /**
+   * Jaccard similarity of two word sets
+   */
+  private wordOverlap(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    a.forEach(word => {
+      if (b.has(word)) shared++;
+    });
+    return shared / (a.size + b.size - shared);
+  }
+
   /**
    * Detect technical hallucinations (made-up APIs, libraries, etc.)
    */
@@ -235,22 +281,27 @@ export class HallucinationDetector {
   ): HallucinationEvidence | null {
     if (!context || context.length === 0) return null;
 
-    // Check if response addresses the current prompt or drifts to previous context
-    const promptKeywords = this.extractKeywords(userPrompt);
+    // The current prompt plus recent turns define what the conversation is about,
+    // so short follow-ups ("now do it in Python") are judged against the session
+    const topicKeywords = [
+      ...this.extractKeywords(userPrompt),
+      ...context.slice(-6).flatMap(turn => this.extractKeywords(turn))
+    ];
     const responseKeywords = this.extractKeywords(response);
+    if (topicKeywords.length === 0 || responseKeywords.length === 0) return null;
 
-    const contextOverlap = promptKeywords.filter(keyword =>
-      responseKeywords.some(respKeyword =>
+    const onTopic = responseKeywords.filter(respKeyword =>
+      topicKeywords.some(keyword =>
         respKeyword.includes(keyword) || keyword.includes(respKeyword)
       )
     ).length;
 
-    const driftScore = Math.max(0, (promptKeywords.length - contextOverlap) / promptKeywords.length * 100);
+    const driftScore = Math.max(0, (responseKeywords.length - onTopic) / responseKeywords.length * 100);
 
     if (driftScore > 60) {
       return {
         type: 'context_drift',
-        description: `High context drift detected (${driftScore.toFixed(1)}% deviation from prompt)`,
+        description: `High context drift detected (${driftScore.toFixed(1)}% deviation from conversation)`,
         severity: Math.min(driftScore / 10, 10)
       };
     }
@@ -0,0 +1,161 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import {
+  compressRotatedSegments,
+  hasInteractionLog,
+  isFailedInteraction,
+  listLogSegments,
+  readInteractionLog,
+  readInteractions,
+  readRecentInteractions,
+  rewriteLogSegment,
+  rotateInteractionLog,
+} from './interaction-log.js';
+
+let dir: string;
+let logFile: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-log-'));
+  logFile = path.join(dir, 'interactions.log');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const lines = (...ids: string[]) => ids.map(id => JSON.stringify({ requestId: id })).join('\n');
+
+test('listLogSegments orders rotated segments by age and puts the current file last', () => {
+  assert.equal(hasInteractionLog(logFile), false);
+  fs.writeFileSync(path.join(dir, 'interactions.2000.log'), '');
+  fs.writeFileSync(path.join(dir, 'interactions.1000.log.gz'), gzipSync(''));
+  fs.writeFileSync(path.join(dir, 'interactions.backup.log'), '');
+  fs.writeFileSync(logFile, '');
+
+  assert.deepEqual(
+    listLogSegments(logFile).map(segment => [path.basename(segment.path), segment.rotatedAt, segment.compressed]),
+    [
+      ['interactions.1000.log.gz', 1000, true],
+      ['interactions.2000.log', 2000, false],
+      ['interactions.log', undefined, false],
+    ]
+  );
+  assert.equal(hasInteractionLog(logFile), true);
+});
+
+test('readInteractions reads compressed and unterminated segments and skips corrupt lines', () => {
+  fs.writeFileSync(path.join(dir, 'interactions.1000.log.gz'), gzipSync(lines('a', 'b')));
+  fs.writeFileSync(path.join(dir, 'interactions.2000.log'), `${lines('c')}\n{"requestId":`);
+  fs.writeFileSync(logFile, `${lines('d')}\n`);
+
+  assert.deepEqual(
+    readInteractions<{ requestId: string }>(logFile).map(entry => entry.requestId),
+    ['a', 'b', 'c', 'd']
+  );
+  assert.deepEqual(
+    readInteractions<{ requestId: string }>(logFile, { since: new Date(1500) }).map(entry => entry.requestId),
+    ['c', 'd'],
+    'segments rotated out before `since` are skipped'
+  );
+  assert.ok(readInteractionLog(logFile).endsWith('\n'));
+});
+
+test('readRecentInteractions reads back only as far as needed', () => {
+  fs.writeFileSync(path.join(dir, 'interactions.1000.log.gz'), 'not gzip');
+  fs.writeFileSync(path.join(dir, 'interactions.2000.log'), lines('a', 'b'));
+  fs.writeFileSync(logFile, lines('c'));
+
+  assert.deepEqual(
+    readRecentInteractions<{ requestId: string }>(logFile, 2).map(entry => entry.requestId),
+    ['b', 'c']
+  );
+});
+
+test('rotateInteractionLog moves the log aside once it passes the size limit', () => {
+  fs.writeFileSync(logFile, lines('a'));
+  assert.equal(rotateInteractionLog(logFile, 1024), null);
+
+  const rotated = rotateInteractionLog(logFile, 4);
+  assert.ok(rotated && /interactions\.\d+\.log$/.test(rotated));
+  assert.equal(fs.existsSync(logFile), false);
+  assert.deepEqual(readInteractions<{ requestId: string }>(logFile).map(entry => entry.requestId), ['a']);
+});
+
+test('compressRotatedSegments gzips rotated segments but not the current log', () => {
+  fs.writeFileSync(path.join(dir, 'interactions.1000.log'), lines('a'));
+  fs.writeFileSync(logFile, lines('b'));
+
+  assert.equal(compressRotatedSegments(logFile), 1);
+  assert.equal(compressRotatedSegments(logFile), 0);
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['interactions.1000.log.gz', 'interactions.log']);
+  assert.deepEqual(readInteractions<{ requestId: string }>(logFile).map(entry => entry.requestId), ['a', 'b']);
+});
+
+test('rewriteLogSegment rewrites compressed segments in place', () => {
+  fs.writeFileSync(path.join(dir, 'interactions.1000.log.gz'), gzipSync(lines('a', 'b')));
+  const [segment] = listLogSegments(logFile);
+
+  rewriteLogSegment(segment, line => line.replace('"a"', '"A"'));
+  assert.deepEqual(readInteractions<{ requestId: string }>(logFile).map(entry => entry.requestId), ['A', 'b']);
+});
+
+test('rewriteLogSegment keeps lines appended to the current log while it runs', () => {
+  fs.writeFileSync(logFile, `${lines('a')}\n{"requestId":`);
+  const [segment] = listLogSegments(logFile);
+
+  rewriteLogSegment(segment, line => {
+    fs.appendFileSync(logFile, `"b"}\n${lines('c')}\n`); // the proxy finishing one line and logging another
+    return line.replace('"a"', '"A"');
+  });
+  assert.equal(fs.readFileSync(logFile, 'utf8'), `${lines('A', 'b', 'c')}\n`);
+});
+
+test('rewriteLogSegment checks again for lines appended while it carried the last ones over', () => {
+  fs.writeFileSync(logFile, `${lines('a')}\n`);
+  const [segment] = listLogSegments(logFile);
+  const appendFileSync = fs.appendFileSync;
+  let proxyWrites = 1; // the proxy logs another line just after the first carry-over
+  const append = mock.method(fs, 'appendFileSync', (file: fs.PathOrFileDescriptor, data: string | Uint8Array) => {
+    appendFileSync(file, data);
+    if (file === `${logFile}.tmp` && proxyWrites-- > 0) appendFileSync(logFile, `${lines('c')}\n`);
+  });
+
+  try {
+    rewriteLogSegment(segment, line => {
+      fs.appendFileSync(logFile, `${lines('b')}\n`);
+      return line.replace('"a"', '"A"');
+    });
+  } finally {
+    append.mock.restore();
+  }
+  assert.equal(fs.readFileSync(logFile, 'utf8'), `${lines('A', 'b', 'c')}\n`);
+});
+
+test('rewriteLogSegment gives up if the current log was rotated meanwhile', () => {
+  fs.writeFileSync(logFile, `${lines('a')}\n`);
+  const [segment] = listLogSegments(logFile);
+
+  assert.throws(
+    () =>
+      rewriteLogSegment(segment, line => {
+        fs.renameSync(logFile, path.join(dir, 'interactions.1000.log'));
+        fs.writeFileSync(logFile, `${lines('b')}\n`);
+        return line;
+      }),
+    /was rotated or compressed while it was being rewritten/
+  );
+  assert.deepEqual(readInteractions<{ requestId: string }>(logFile).map(entry => entry.requestId), ['a', 'b']);
+  assert.equal(fs.existsSync(`${logFile}.tmp`), false);
+});
+
+test('isFailedInteraction only matches lines logged as errors', () => {
+  assert.equal(isFailedInteraction({ outcome: 'error' }), true);
+  assert.equal(isFailedInteraction({ outcome: 'success' }), false);
+  assert.equal(isFailedInteraction({}), false);
+  assert.equal(isFailedInteraction(null), false);
+});
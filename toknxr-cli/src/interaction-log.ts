@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+
+/**
+ * interactions.log and its rotated segments.
+ *
+ * The proxy rotates the log to `interactions.<epoch ms>.log` once it passes
+ * ROTATE_AT_BYTES, and older segments may be gzip-compressed to
+ * `interactions.<epoch ms>.log.gz`. Everything that reads the log goes through
+ * here so spend, stats and sync see the whole history, not just the current file.
+ */
+
+export const INTERACTION_LOG_FILE = 'interactions.log';
+
+const ROTATE_AT_BYTES = 5 * 1024 * 1024;
+
+export interface LogSegment {
+  path: string;
+  rotatedAt?: number; // epoch ms the segment was rotated out; absent for the current log
+  compressed: boolean;
+}
+
+export const interactionLogPath = (cwd: string = process.cwd()): string => path.resolve(cwd, INTERACTION_LOG_FILE);
+
+const segmentPattern = (logFilePath: string): RegExp => {
+  const base = path.basename(logFilePath).replace(/\.log$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${base}\\.(\\d+)\\.log(\\.gz)?$`);
+};
+
+/**
+ * All segments of a log, oldest first; the current file (if it exists) is last
+ */
+export function listLogSegments(logFilePath: string = interactionLogPath()): LogSegment[] {
+  const dir = path.dirname(logFilePath);
+  const pattern = segmentPattern(logFilePath);
+  const rotated: LogSegment[] = [];
+  if (fs.existsSync(dir)) {
+    for (const file of fs.readdirSync(dir)) {
+      const match = file.match(pattern);
+      if (match) rotated.push({ path: path.join(dir, file), rotatedAt: Number(match[1]), compressed: !!match[2] });
+    }
+  }
+  rotated.sort((a, b) => a.rotatedAt! - b.rotatedAt!);
+  return fs.existsSync(logFilePath) ? [...rotated, { path: logFilePath, compressed: false }] : rotated;
+}
+
+export function readLogSegment(segment: LogSegment): Buffer {
+  const content = fs.readFileSync(segment.path);
+  return segment.compressed ? gunzipSync(content) : content;
+}
+
+/**
+ * Raw text of every segment, oldest first. With `since`, segments rotated out
+ * before that time (which can only hold older lines) are skipped.
+ */
+export function readInteractionLog(
+  logFilePath: string = interactionLogPath(),
+  options: { since?: Date } = {}
+): string {
+  const since = options.since?.getTime();
+  return listLogSegments(logFilePath)
+    .filter(segment => since === undefined || segment.rotatedAt === undefined || segment.rotatedAt >= since)
+    .map(segment => {
+      try {
+        const text = readLogSegment(segment).toString('utf8');
+        return text.endsWith('\n') || !text ? text : `${text}\n`;
+      } catch (error) {
+        console.warn(`Could not read ${segment.path}:`, error);
+        return '';
+      }
+    })
+    .join('');
+}
+
+const parseLines = <T>(text: string): T[] => {
+  const entries: T[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      // Partial or corrupt line
+    }
+  }
+  return entries;
+};
+
+/**
+ * Parsed log entries across all segments; unparseable lines are skipped
+ */
+export function readInteractions<T = any>(
+  logFilePath: string = interactionLogPath(),
+  options: { since?: Date } = {}
+): T[] {
+  return parseLines<T>(readInteractionLog(logFilePath, options));
+}
+
+/**
+ * The last `count` entries, oldest first, reading back only as many segments as needed
+ */
+export function readRecentInteractions<T = any>(logFilePath: string = interactionLogPath(), count = 20): T[] {
+  let entries: T[] = [];
+  for (const segment of listLogSegments(logFilePath).reverse()) {
+    entries = [...parseLines<T>(readLogSegment(segment).toString('utf8')), ...entries];
+    if (entries.length >= count) break;
+  }
+  return entries.slice(-count);
+}
+
+export function hasInteractionLog(logFilePath: string = interactionLogPath()): boolean {
+  return listLogSegments(logFilePath).length > 0;
+}
+
+/**
+ * Move the current log aside once it is too large. Returns the rotated path, or null.
+ */
+export function rotateInteractionLog(logFilePath: string = interactionLogPath(), maxBytes = ROTATE_AT_BYTES): string | null {
+  if (!fs.existsSync(logFilePath) || fs.statSync(logFilePath).size <= maxBytes) return null;
+  const rotated = `${logFilePath.replace(/\.log$/, '')}.${Date.now()}.log`;
+  fs.renameSync(logFilePath, rotated);
+  return rotated;
+}
+
+/**
+ * Gzip rotated segments that are not compressed yet. Returns how many were compressed.
+ */
+export function compressRotatedSegments(logFilePath: string = interactionLogPath()): number {
+  let compressed = 0;
+  for (const segment of listLogSegments(logFilePath)) {
+    if (segment.rotatedAt === undefined || segment.compressed) continue;
+    const target = `${segment.path}.gz`;
+    fs.writeFileSync(`${target}.tmp`, gzipSync(fs.readFileSync(segment.path)));
+    fs.renameSync(`${target}.tmp`, target);
+    fs.unlinkSync(segment.path);
+    compressed++;
+  }
+  return compressed;
+}
+
+/**
+ * Replace each line of a segment with `transform(line)`, keeping its compression. For the
+ * current log, lines the proxy appends while it is being rewritten are carried over as they
+ * are, until the file stops growing; a line appended in the instant between that last check
+ * and the rename is still lost. If the proxy rotated or compressed it in the meantime the
+ * rewrite is abandoned.
+ */
+export function rewriteLogSegment(segment: LogSegment, transform: (line: string) => string): void {
+  const original = fs.readFileSync(segment.path);
+  const text = (segment.compressed ? gunzipSync(original) : original).toString('utf8');
+  // The current log may end in a line that is still being appended; it is copied over untouched below
+  const complete = segment.rotatedAt === undefined ? text.slice(0, text.lastIndexOf('\n') + 1) : text;
+  const lines = complete.split('\n').filter(Boolean).map(transform);
+  const rewritten = lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  const tmpPath = `${segment.path}.tmp`;
+  fs.writeFileSync(tmpPath, segment.compressed ? gzipSync(rewritten) : rewritten);
+
+  let carried = Buffer.byteLength(complete);
+  for (;;) {
+    const latest = fs.existsSync(segment.path) ? fs.readFileSync(segment.path) : Buffer.alloc(0);
+    if (!latest.subarray(0, original.length).equals(original)) {
+      fs.unlinkSync(tmpPath);
+      throw new Error(`${segment.path} was rotated or compressed while it was being rewritten; run again`);
+    }
+    if (segment.rotatedAt !== undefined || latest.length === carried) break;
+    fs.appendFileSync(tmpPath, latest.subarray(carried));
+    carried = latest.length;
+  }
+  fs.renameSync(tmpPath, segment.path);
+}
+
+/**
+ * Lines for requests that failed upstream (`outcome: 'error'`). They carry no usage, so
+ * spend, analytics and sync skip them; lines from before outcomes were logged are successes.
+ */
+export const isFailedInteraction = (entry: { outcome?: string } | null | undefined): boolean => entry?.outcome === 'error';
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { BatchLog, detectOperation, measureOperation, requestedOperationModel, BATCH_LOG_FILE } from './operations.js';
+
+const OPENAI = 'https://api.openai.com/v1';
+const GEMINI = 'https://generativelanguage.googleapis.com/v1beta';
+const json = (body: object) => ({ body: Buffer.from(JSON.stringify(body)), contentType: 'application/json' });
+
+test('detectOperation recognises each endpoint by method and path', () => {
+  assert.equal(detectOperation('openai', 'POST', `${OPENAI}/embeddings`), 'embeddings');
+  assert.equal(detectOperation('openai', 'POST', `${OPENAI}/images/generations`), 'image');
+  assert.equal(detectOperation('openai', 'POST', `${OPENAI}/audio/transcriptions`), 'audio');
+  assert.equal(detectOperation('openai', 'GET', `${OPENAI}/batches/batch_1`), 'batch');
+  assert.equal(detectOperation('openai', 'POST', `${OPENAI}/batches`), undefined);
+  assert.equal(detectOperation('openai', 'POST', `${OPENAI}/chat/completions`), undefined);
+  assert.equal(detectOperation('gemini', 'POST', `${GEMINI}/models/text-embedding-004:embedContent?key=k`), 'embeddings');
+  assert.equal(detectOperation('ollama', 'POST', 'http://localhost:11434/api/embed'), 'embeddings');
+  assert.equal(detectOperation('anthropic', 'POST', 'https://api.anthropic.com/v1/embeddings'), undefined);
+});
+
+test('measureOperation uses reported embedding usage, else estimates it from the input', () => {
+  assert.deepEqual(
+    measureOperation('embeddings', `${OPENAI}/embeddings`, json({ model: 'text-embedding-3-small', input: 'hi' }), {
+      model: 'text-embedding-3-small',
+      usage: { prompt_tokens: 7, total_tokens: 7 },
+    }),
+    { model: 'text-embedding-3-small', promptTokens: 7, completionTokens: 0 }
+  );
+
+  const gemini = measureOperation(
+    'embeddings',
+    `${GEMINI}/models/text-embedding-004:batchEmbedContents`,
+    json({ requests: [{ model: 'models/text-embedding-004', content: { parts: [{ text: 'twelve chars' }] } }] }),
+    { embeddings: [] }
+  );
+  assert.equal(gemini?.model, 'text-embedding-004');
+  assert.equal(gemini?.usageEstimated, true);
+  assert.ok((gemini?.promptTokens || 0) > 0);
+});
+
+test('measureOperation counts images and reads their size from a multipart request', () => {
+  const boundary = 'XyZ';
+  const body = Buffer.from(
+    [
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="model"',
+      '',
+      'dall-e-2',
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="image"; filename="a.png"',
+      'Content-Type: image/png',
+      '',
+      '\u0089PNG binary',
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="size"',
+      '',
+      '512x512',
+      `--${boundary}--`,
+      '',
+    ].join('\r\n'),
+    'latin1'
+  );
+  const request = { body, contentType: `multipart/form-data; boundary=${boundary}` };
+  assert.equal(requestedOperationModel('image', `${OPENAI}/images/edits`, request), 'dall-e-2');
+  assert.deepEqual(measureOperation('image', `${OPENAI}/images/edits`, request, { data: [{}, {}] }), {
+    model: 'dall-e-2',
+    promptTokens: 0,
+    completionTokens: 0,
+    images: 2,
+    imageSize: '512x512',
+  });
+  assert.equal(measureOperation('image', `${OPENAI}/images/generations`, json({ n: 3 }), {})?.images, 3);
+});
+
+test('measureOperation reads audio duration or token usage', () => {
+  const whisper = measureOperation('audio', `${OPENAI}/audio/transcriptions`, json({ model: 'whisper-1' }), { duration: 61.5 });
+  assert.deepEqual(whisper, { model: 'whisper-1', promptTokens: 0, completionTokens: 0, audioSeconds: 61.5 });
+
+  const tokens = measureOperation('audio', `${OPENAI}/audio/transcriptions`, json({ model: 'gpt-4o-transcribe' }), {
+    usage: { type: 'tokens', input_tokens: 40, output_tokens: 10 },
+  });
+  assert.deepEqual(tokens, { model: 'gpt-4o-transcribe', promptTokens: 40, completionTokens: 10 });
+});
+
+test('measureOperation counts a batch only once it has completed', () => {
+  const url = `${OPENAI}/batches/batch_1`;
+  const request = { body: Buffer.alloc(0) };
+  assert.equal(measureOperation('batch', url, request, { id: 'batch_1', status: 'in_progress' }), null);
+  assert.deepEqual(
+    measureOperation('batch', url, request, {
+      id: 'batch_1',
+      status: 'completed',
+      model: 'gpt-4o-mini',
+      usage: { input_tokens: 1000, output_tokens: 200 },
+    }),
+    { model: 'gpt-4o-mini', promptTokens: 1000, completionTokens: 200, batchId: 'batch_1' }
+  );
+});
+
+test('BatchLog claims each batch once, across restarts', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-batch-'));
+  try {
+    const log = BatchLog.load(dir);
+    assert.equal(log.claim('OpenAI', 'batch_1'), true);
+    assert.equal(log.claim('OpenAI', 'batch_1'), false);
+    assert.equal(log.claim('Azure', 'batch_1'), true);
+    log.save();
+
+    assert.ok(fs.existsSync(path.join(dir, BATCH_LOG_FILE)));
+    assert.equal(BatchLog.load(dir).claim('OpenAI', 'batch_1'), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { estimateTokens } from './cost-projection.js';
+import type { ProviderFormat } from './provider-adapters.js';
+
+/**
+ * Calls other than chat that the proxy tracks: embeddings, image generation,
+ * speech-to-text and batch jobs.
+ *
+ * Each is recognised by its endpoint and measured from its response, in the units
+ * the provider bills: tokens, images or seconds of audio. Where a provider reports
+ * no usage (Gemini embeddings) the input is estimated from the request text.
+ * A batch is counted once, when the proxy first sees it completed.
+ */
+
+export type Operation = 'chat' | 'embeddings' | 'image' | 'audio' | 'batch';
+
+export const BATCH_LOG_FILE = 'toknxr.batch-log.json';
+
+/**
+ * What a call used, as logged and priced
+ */
+export interface OperationUsage {
+  model: string;
+  promptTokens: number; // input tokens: embedded text, token-billed image and audio models, batch input
+  completionTokens: number;
+  usageEstimated?: boolean; // promptTokens was estimated from the request
+  images?: number;
+  imageSize?: string; // e.g. "1024x1024"
+  imageQuality?: string; // e.g. "hd"
+  audioSeconds?: number;
+  batchId?: string;
+}
+
+const OPERATION_ENDPOINTS: Partial<Record<ProviderFormat, Array<{ method: string; path: RegExp; operation: Operation }>>> = {
+  openai: [
+    { method: 'POST', path: /\/embeddings$/, operation: 'embeddings' },
+    { method: 'POST', path: /\/images\/(generations|edits|variations)$/, operation: 'image' },
+    { method: 'POST', path: /\/audio\/(transcriptions|translations)$/, operation: 'audio' },
+    { method: 'GET', path: /\/batches\/[^/]+$/, operation: 'batch' }, // polled until it completes
+  ],
+  gemini: [{ method: 'POST', path: /:(embedContent|batchEmbedContents)$/, operation: 'embeddings' }],
+  ollama: [{ method: 'POST', path: /\/api\/embed(dings)?$/, operation: 'embeddings' }],
+};
+
+/**
+ * The tracked operation a call is, if any; chat calls are left to the provider adapters
+ */
+export function detectOperation(format: ProviderFormat, method: string | undefined, url: string): Operation | undefined {
+  const pathname = new URL(url).pathname;
+  return (OPERATION_ENDPOINTS[format] || []).find(endpoint => endpoint.method === method && endpoint.path.test(pathname))
+    ?.operation;
+}
+
+/**
+ * Text fields of a multipart/form-data body (model, size, response_format, ...); file parts are skipped
+ */
+function multipartFields(body: Buffer, contentType: string): Record<string, string> {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  if (!boundary) return {};
+  const fields: Record<string, string> = {};
+  // latin1 maps bytes one to one, so binary file parts cannot break the split
+  for (const part of body.toString('latin1').split(`--${boundary[1] || boundary[2]}`)) {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd < 0) continue;
+    const headers = part.slice(0, headerEnd);
+    const name = headers.match(/name="([^"]*)"/i)?.[1];
+    if (!name || /filename=/i.test(headers)) continue;
+    fields[name] = Buffer.from(part.slice(headerEnd + 4).replace(/\r\n$/, ''), 'latin1').toString('utf8');
+  }
+  return fields;
+}
+
+const requestFields = (body: Buffer, contentType = ''): Record<string, any> => {
+  if (/multipart\/form-data/i.test(contentType)) return multipartFields(body, contentType);
+  try {
+    const parsed = JSON.parse(body.toString('utf8'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * All strings in a request value, e.g. the `input` of an embeddings call
+ */
+const textOf = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(textOf).join('\n');
+  if (value && typeof value === 'object') return Object.values(value).map(textOf).join('\n');
+  return '';
+};
+
+const count = (value: unknown): number | undefined => (typeof value === 'number' && value >= 0 ? value : undefined);
+
+const modelOf = (operation: Operation, url: string, fields: Record<string, any>, response: any): string => {
+  switch (operation) {
+    case 'embeddings':
+      return (
+        response.model ||
+        fields.model ||
+        // Gemini names it in the URL and as models/<name> in batch requests
+        new URL(url).pathname.match(/\/models\/([^/:]+)/)?.[1] ||
+        String(fields.requests?.[0]?.model || '').replace(/^models\//, '') ||
+        'unknown'
+      );
+    case 'image':
+      return fields.model || 'dall-e-2'; // OpenAI's default when none is given
+    case 'batch':
+      return response.model || 'unknown'; // only known once the batch has run
+    default:
+      return fields.model || 'unknown';
+  }
+};
+
+/**
+ * The model a call asks for, for budget checks before it is sent
+ */
+export function requestedOperationModel(
+  operation: Operation,
+  url: string,
+  request: { body: Buffer; contentType?: string }
+): string | undefined {
+  const model = modelOf(operation, url, requestFields(request.body, request.contentType), {});
+  return model === 'unknown' ? undefined : model;
+}
+
+/**
+ * Usage of a completed call; null when there is nothing to count yet (a batch still running)
+ */
+export function measureOperation(
+  operation: Operation,
+  url: string,
+  request: { body: Buffer; contentType?: string },
+  responseData: any
+): OperationUsage | null {
+  const fields = requestFields(request.body, request.contentType);
+  const response = responseData && typeof responseData === 'object' ? responseData : {};
+  const model = modelOf(operation, url, fields, response);
+
+  switch (operation) {
+    case 'embeddings': {
+      const reported = count(response.usage?.prompt_tokens) ?? count(response.usage?.total_tokens) ?? count(response.prompt_eval_count);
+      if (reported !== undefined) return { model, promptTokens: reported, completionTokens: 0 };
+      const text = textOf(fields.input ?? fields.prompt ?? fields.content ?? fields.requests);
+      return { model, promptTokens: estimateTokens(text), completionTokens: 0, usageEstimated: true };
+    }
+    case 'image':
+      return {
+        model,
+        // gpt-image-1 reports tokens; DALL·E is billed per image
+        promptTokens: count(response.usage?.input_tokens) ?? 0,
+        completionTokens: count(response.usage?.output_tokens) ?? 0,
+        images: Array.isArray(response.data) ? response.data.length : Number(fields.n) || 1,
+        ...(fields.size ? { imageSize: String(fields.size) } : {}),
+        ...(fields.quality ? { imageQuality: String(fields.quality) } : {}),
+      };
+    case 'audio': {
+      // Whisper reports the duration with response_format=verbose_json; newer models report usage
+      const seconds = response.usage?.type === 'duration' ? count(response.usage.seconds) : count(response.duration);
+      return {
+        model,
+        promptTokens: response.usage?.type === 'tokens' ? count(response.usage.input_tokens) ?? 0 : 0,
+        completionTokens: response.usage?.type === 'tokens' ? count(response.usage.output_tokens) ?? 0 : 0,
+        ...(seconds !== undefined ? { audioSeconds: seconds } : {}),
+      };
+    }
+    case 'batch':
+      if (response.status !== 'completed' || !response.usage || !response.id) return null;
+      return {
+        model,
+        promptTokens: count(response.usage.input_tokens) ?? 0,
+        completionTokens: count(response.usage.output_tokens) ?? 0,
+        batchId: String(response.id),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Batches whose usage has been logged, kept in toknxr.batch-log.json so a batch
+ * that is polled again, or after a restart, is not counted twice
+ */
+export class BatchLog {
+  private logged: Record<string, string> = {}; // "<provider>|<batch id>" -> when it was logged
+
+  constructor(private filePath: string) {}
+
+  static load(cwd: string = process.cwd()): BatchLog {
+    const log = new BatchLog(path.resolve(cwd, BATCH_LOG_FILE));
+    if (fs.existsSync(log.filePath)) {
+      try {
+        log.logged = JSON.parse(fs.readFileSync(log.filePath, 'utf8')).logged || {};
+      } catch (error) {
+        console.error(`Could not read ${BATCH_LOG_FILE}; completed batches may be counted again:`, error);
+      }
+    }
+    return log;
+  }
+
+  save(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version: 1, logged: this.logged }, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * True the first time a batch is claimed; marks it as logged
+   */
+  claim(provider: string, batchId: string, now: Date = new Date()): boolean {
+    const key = `${provider}|${batchId}`;
+    if (this.logged[key]) return false;
+    this.logged[key] = now.toISOString();
+    return true;
+  }
+}
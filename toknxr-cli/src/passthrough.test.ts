@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  forwardedHeaders,
+  isBillableRequest,
+  matchProvider,
+  rebaseUrl,
+  redactQuery,
+  upstreamUrl,
+  CREDENTIAL_HEADERS,
+} from './passthrough.js';
+import { geminiAdapter, openAIAdapter } from './provider-adapters.js';
+
+const openai = { routePrefix: '/openai', targetUrl: 'https://api.openai.com/v1/chat/completions', baseUrl: 'https://api.openai.com/v1' };
+const gemini = {
+  routePrefix: '/gemini',
+  targetUrl: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent',
+};
+const geminiFree = { ...gemini, routePrefix: '/gemini-free' };
+
+test('forwardedHeaders drops transport and toknxr headers and applies allow and deny lists', () => {
+  const headers = {
+    Host: 'localhost:8788',
+    'content-type': 'application/json',
+    'content-length': '12',
+    authorization: 'Bearer sk',
+    'x-toknxr-key': 'tkx_1',
+    'x-stainless-os': 'Linux',
+    'x-trace': ['a', 'b'],
+  };
+  assert.deepEqual(forwardedHeaders(headers), {
+    'content-type': 'application/json',
+    authorization: 'Bearer sk',
+    'x-stainless-os': 'Linux',
+    'x-trace': 'a, b',
+  });
+  assert.deepEqual(forwardedHeaders(headers, { allowHeaders: ['x-stainless-*'] }), {
+    'content-type': 'application/json',
+    'x-stainless-os': 'Linux',
+  });
+  assert.deepEqual(
+    Object.keys(forwardedHeaders(headers, { denyHeaders: ['X-Trace'] }, CREDENTIAL_HEADERS)),
+    ['content-type', 'x-stainless-os']
+  );
+});
+
+test('matchProvider matches whole path segments and prefers the longest prefix', () => {
+  const providers = [gemini, geminiFree, openai];
+  assert.equal(matchProvider(providers, '/gemini-free/v1beta/models'), geminiFree);
+  assert.equal(matchProvider(providers, '/gemini?key=k'), gemini);
+  assert.equal(matchProvider(providers, '/openai'), openai);
+  assert.equal(matchProvider(providers, '/openaix'), undefined);
+});
+
+test('upstreamUrl sends the bare prefix to targetUrl and longer paths under the base URL', () => {
+  assert.equal(upstreamUrl(openai, '/openai'), openai.targetUrl);
+  assert.equal(upstreamUrl(openai, '/openai/?x=1'), `${openai.targetUrl}?x=1`);
+  assert.equal(upstreamUrl(openai, '/openai/embeddings?x=1'), 'https://api.openai.com/v1/embeddings?x=1');
+  assert.equal(
+    upstreamUrl(gemini, '/gemini/v1beta/models?key=k'),
+    'https://generativelanguage.googleapis.com/v1beta/models?key=k'
+  );
+});
+
+test('rebaseUrl moves a call to the same endpoint or path on another provider', () => {
+  const azure = { targetUrl: 'https://azure.example/openai/chat/completions', baseUrl: 'https://azure.example/openai' };
+  assert.equal(rebaseUrl(`${openai.targetUrl}?x=1`, openai, azure), `${azure.targetUrl}?x=1`);
+  assert.equal(rebaseUrl('https://api.openai.com/v1/embeddings', openai, azure), 'https://azure.example/openai/embeddings');
+  assert.equal(rebaseUrl('https://elsewhere.example/x', openai, azure), azure.targetUrl);
+});
+
+test('isBillableRequest analyzes POSTs to the provider endpoint or a path the adapter understands', () => {
+  assert.equal(isBillableRequest('POST', openai.targetUrl, openai, openAIAdapter), true);
+  assert.equal(isBillableRequest('GET', openai.targetUrl, openai, openAIAdapter), false);
+  assert.equal(isBillableRequest('POST', 'https://api.openai.com/v1/files', openai, openAIAdapter), false);
+  assert.equal(
+    isBillableRequest('POST', 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=k', gemini, geminiAdapter),
+    true
+  );
+  assert.equal(
+    isBillableRequest(
+      'POST',
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:streamGenerateContent?alt=sse&key=k',
+      gemini,
+      geminiAdapter
+    ),
+    true
+  );
+  assert.equal(isBillableRequest('POST', 'https://x/anything', openai, { ...openAIAdapter, billablePath: undefined }), true);
+});
+
+test('redactQuery hides the query string', () => {
+  assert.equal(redactQuery('https://x/y?key=secret'), 'https://x/y?…');
+  assert.equal(redactQuery('https://x/y'), 'https://x/y');
+});
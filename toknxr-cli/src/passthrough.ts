@@ -0,0 +1,128 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { ProviderAdapter } from './provider-adapters.js';
+
+/**
+ * General passthrough (`passthrough` in toknxr.config.json, `baseUrl` on a provider).
+ *
+ * Any method and path under a provider's route prefix is forwarded with its query
+ * string and the client's headers, so an SDK can use `<proxy>/<routePrefix>` as its
+ * base URL. Only billable calls (the chat/completion requests the provider's adapter
+ * understands) are analyzed, logged and budgeted; everything else is relayed as is.
+ */
+
+export interface PassthroughConfig {
+  allowHeaders?: string[]; // forward only these client headers (default: all but the denied ones); `x-stainless-*` matches a prefix
+  denyHeaders?: string[]; // never forward these, on top of the built-in list
+}
+
+interface PassthroughProvider {
+  routePrefix: string;
+  targetUrl: string; // the endpoint a request to the bare route prefix goes to
+  baseUrl?: string; // what paths under the route prefix are relative to (default: the origin of targetUrl)
+}
+
+// Transport headers, and the proxy's own key and attribution headers, are never forwarded
+const DENIED_HEADERS = [
+  'host',
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-length',
+  'te',
+  'trailer',
+  'upgrade',
+  'proxy-authorization',
+  'x-toknxr-*',
+];
+
+// Where clients put provider credentials; not forwarded to a provider the client did not address
+export const CREDENTIAL_HEADERS = ['authorization', 'x-api-key', 'x-goog-api-key', 'api-key'];
+
+const matchesHeader = (name: string, patterns: string[]): boolean =>
+  patterns.some(pattern => {
+    const lower = pattern.toLowerCase();
+    return lower.endsWith('*') ? name.startsWith(lower.slice(0, -1)) : name === lower;
+  });
+
+/**
+ * The client's headers to send upstream, lower-cased; `drop` removes more for this request
+ */
+export function forwardedHeaders(
+  headers: IncomingHttpHeaders,
+  config: PassthroughConfig = {},
+  drop: string[] = []
+): Record<string, string> {
+  const denied = [...DENIED_HEADERS, ...(config.denyHeaders || []), ...drop];
+  const result: Record<string, string> = {};
+  for (const [rawName, value] of Object.entries(headers)) {
+    const name = rawName.toLowerCase();
+    if (value === undefined || matchesHeader(name, denied)) continue;
+    if (config.allowHeaders && name !== 'content-type' && !matchesHeader(name, config.allowHeaders)) continue;
+    result[name] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return result;
+}
+
+/**
+ * The provider whose route prefix the URL is under. Prefixes match whole path segments,
+ * so `/gemini-free` is not taken by `/gemini`; the longest one wins.
+ */
+export function matchProvider<P extends PassthroughProvider>(providers: P[], url: string): P | undefined {
+  return providers
+    .filter(provider => {
+      const prefix = provider.routePrefix.replace(/\/$/, '');
+      return url.startsWith(prefix) && /^([/?]|$)/.test(url.slice(prefix.length));
+    })
+    .sort((a, b) => b.routePrefix.length - a.routePrefix.length)[0];
+}
+
+type ProviderUrls = Pick<PassthroughProvider, 'targetUrl' | 'baseUrl'>;
+
+const baseUrlOf = (provider: ProviderUrls): string =>
+  (provider.baseUrl || new URL(provider.targetUrl).origin).replace(/\/$/, '');
+
+const withQuery = (url: string, query: string): string => (query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url);
+
+/**
+ * Where a request under the provider's route prefix goes: the bare prefix to its
+ * targetUrl (query string appended), anything longer to the same path under its base URL
+ */
+export function upstreamUrl(provider: PassthroughProvider, requestUrl: string): string {
+  const rest = requestUrl.slice(provider.routePrefix.replace(/\/$/, '').length);
+  const queryAt = rest.indexOf('?');
+  const restPath = queryAt >= 0 ? rest.slice(0, queryAt) : rest;
+  const query = queryAt >= 0 ? rest.slice(queryAt + 1) : '';
+  if (restPath === '' || restPath === '/') return withQuery(provider.targetUrl, query);
+  return withQuery(baseUrlOf(provider) + restPath, query);
+}
+
+/**
+ * The same call on another provider: its targetUrl for the provider's own endpoint,
+ * else the same path under its base URL
+ */
+export function rebaseUrl(url: string, from: ProviderUrls, to: ProviderUrls): string {
+  const query = url.slice(from.targetUrl.length);
+  if (url.startsWith(from.targetUrl) && /^(\?|$)/.test(query)) return to.targetUrl + query;
+  const base = baseUrlOf(from);
+  return url.startsWith(base) ? baseUrlOf(to) + url.slice(base.length) : to.targetUrl;
+}
+
+/**
+ * Whether the proxy should analyze the call: a POST to the provider's own endpoint,
+ * or to a path its adapter understands
+ */
+export function isBillableRequest(
+  method: string | undefined,
+  url: string,
+  provider: ProviderUrls,
+  adapter: ProviderAdapter
+): boolean {
+  if (method !== 'POST') return false;
+  const pathname = new URL(url).pathname;
+  return pathname === new URL(provider.targetUrl).pathname || !adapter.billablePath || adapter.billablePath.test(pathname);
+}
+
+/**
+ * A URL with its query string hidden, for logs; it may carry an API key (`?key=`)
+ */
+export const redactQuery = (url: string): string => url.replace(/\?.+$/, '?…');
@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  budgetOverview,
+  budgetRules,
+  computeMonthlySpend,
+  evaluateBudgets,
+  formatBudgetStatus,
+  loadPolicy,
+  parseSpendRecords,
+  SpendAggregate,
+  toSpendRecord,
+  windowEnd,
+  windowStart,
+  POLICY_FILE,
+  type BudgetRule,
+} from './policy.js';
+
+const now = new Date('2026-03-18T12:00:00Z'); // a Wednesday
+
+test('budget windows are UTC calendar periods with weeks starting on Monday', () => {
+  assert.equal(windowStart('daily', now).toISOString(), '2026-03-18T00:00:00.000Z');
+  assert.equal(windowStart('weekly', now).toISOString(), '2026-03-16T00:00:00.000Z');
+  assert.equal(windowStart('monthly', now).toISOString(), '2026-03-01T00:00:00.000Z');
+  assert.equal(windowEnd('weekly', now).toISOString(), '2026-03-23T00:00:00.000Z');
+  assert.equal(windowEnd('monthly', now).toISOString(), '2026-04-01T00:00:00.000Z');
+});
+
+test('budgetRules turns the legacy caps into rules ahead of scoped budgets', () => {
+  const scoped: BudgetRule = { scope: 'user', match: '*', window: 'daily', limitUSD: 5 };
+  assert.deepEqual(budgetRules({ monthlyUSD: 100, perProviderMonthlyUSD: { OpenAI: 50 }, budgets: [scoped] }), [
+    { name: 'monthlyUSD', window: 'monthly', limitUSD: 100 },
+    { name: 'perProviderMonthlyUSD', scope: 'provider', match: 'OpenAI', window: 'monthly', limitUSD: 50 },
+    scoped,
+  ]);
+});
+
+test('toSpendRecord skips failed and undated lines and defaults the operation to chat', () => {
+  assert.equal(toSpendRecord({ costUSD: 1 }), null);
+  assert.equal(toSpendRecord({ timestamp: now.toISOString(), costUSD: 1, outcome: 'error' }), null);
+  assert.deepEqual(toSpendRecord({ timestamp: now.toISOString(), costUSD: '0.5', user: 'ana', tags: 'x' }), {
+    timestamp: now.toISOString(),
+    costUSD: 0.5,
+    provider: undefined,
+    model: undefined,
+    user: 'ana',
+    team: undefined,
+    project: undefined,
+    tags: undefined,
+    operation: 'chat',
+  });
+  assert.equal(parseSpendRecords(`${JSON.stringify({ timestamp: now.toISOString(), costUSD: 1 })}\n{bad\n\n`).length, 1);
+});
+
+const aggregate = () =>
+  SpendAggregate.fromRecords([
+    { timestamp: '2026-03-18T09:00:00Z', costUSD: 4, user: 'ana', provider: 'OpenAI', tags: ['ci'] },
+    { timestamp: '2026-03-17T09:00:00Z', costUSD: 2, user: 'ana', provider: 'OpenAI', operation: 'embeddings' },
+    { timestamp: '2026-03-18T10:00:00Z', costUSD: 1, user: 'ben', provider: 'Anthropic' },
+    { timestamp: '2026-02-28T10:00:00Z', costUSD: 50, user: 'ana', provider: 'OpenAI' },
+  ]);
+
+test('SpendAggregate totals spend per window period and scope value', () => {
+  const spending = aggregate();
+  assert.deepEqual(spending.spend({ window: 'monthly', limitUSD: 0 }, now), { '': 7 });
+  assert.deepEqual(spending.spend({ scope: 'user', match: '*', window: 'daily', limitUSD: 0 }, now), { ana: 4, ben: 1 });
+  assert.deepEqual(spending.spend({ scope: 'user', match: 'ana', window: 'weekly', limitUSD: 0 }, now), { ana: 6 });
+  assert.deepEqual(spending.spend({ scope: 'tag', match: 'ci', window: 'daily', limitUSD: 0 }, now), { ci: 4 });
+  assert.deepEqual(spending.spend({ scope: 'operation', match: '*', window: 'monthly', limitUSD: 0 }, now), { embeddings: 2 });
+  assert.deepEqual(spending.monthlyTotals(now), {
+    total: 7,
+    byProvider: { OpenAI: 6, Anthropic: 1 },
+    byUser: { ana: 6, ben: 1 },
+    byTeam: {},
+  });
+
+  spending.prune(new Date('2026-03-02T00:00:00Z')); // February ended before this
+  assert.deepEqual(spending.spend({ window: 'monthly', limitUSD: 0 }, new Date('2026-02-28T12:00:00Z')), {});
+});
+
+test('evaluateBudgets checks the rules that apply, including the cost of the pending request', () => {
+  const rules: BudgetRule[] = [
+    { name: 'daily', scope: 'user', match: '*', window: 'daily', limitUSD: 5, warnAtPercent: 80 },
+    { scope: 'team', match: 'ops', window: 'monthly', limitUSD: 1 },
+  ];
+  const [status] = evaluateBudgets(rules, aggregate(), { user: 'ana' }, 0, now);
+  assert.equal(status.label, 'daily: user ana (daily)');
+  assert.equal(status.state, 'warn');
+
+  const [projected] = evaluateBudgets(rules, aggregate(), { user: 'ana' }, 1.5, now);
+  assert.equal(projected.state, 'exceeded');
+  assert.equal(formatBudgetStatus(projected), 'daily: user ana (daily) $4.00 (projected $5.50)/$5.00');
+
+  assert.deepEqual(evaluateBudgets(rules, aggregate(), { user: 'ben' }, 0, now).map(s => s.state), ['ok']);
+});
+
+test('budgetOverview lists every value seen for wildcard rules', () => {
+  const overview = budgetOverview([{ scope: 'provider', match: '*', window: 'monthly', limitUSD: 5 }], aggregate(), now);
+  assert.deepEqual(
+    overview.map(status => [status.label, status.spentUSD, status.state]),
+    [
+      ['provider OpenAI (monthly)', 6, 'exceeded'],
+      ['provider Anthropic (monthly)', 1, 'ok'],
+    ]
+  );
+});
+
+test('loadPolicy and computeMonthlySpend read from the working directory', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-policy-'));
+  try {
+    assert.equal(loadPolicy(dir), null);
+    fs.writeFileSync(path.join(dir, POLICY_FILE), JSON.stringify({ version: '1', monthlyUSD: 10 }));
+    assert.equal(loadPolicy(dir)?.monthlyUSD, 10);
+
+    const month = '2026-03';
+    fs.writeFileSync(
+      path.join(dir, 'interactions.log'),
+      [
+        { timestamp: '2026-03-02T00:00:00Z', costUSD: 2, provider: 'OpenAI', user: 'ana' },
+        { timestamp: '2026-02-02T00:00:00Z', costUSD: 9, provider: 'OpenAI' },
+      ]
+        .map(entry => JSON.stringify(entry))
+        .join('\n')
+    );
+    const spend = computeMonthlySpend(path.join(dir, 'interactions.log'), month);
+    assert.equal(spend.total, 2);
+    assert.deepEqual(spend.byProvider, { OpenAI: 2 });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
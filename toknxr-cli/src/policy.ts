@@ -1,16 +1,76 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import axios from 'axios';
+import { isFailedInteraction, readInteractionLog } from './interaction-log.js';
+import type { AlertChannel } from './alerts.js';
+
+export type BudgetWindow = 'daily' | 'weekly' | 'monthly';
+export type BudgetScope = 'user' | 'team' | 'project' | 'model' | 'tag' | 'provider' | 'operation';
+
+/**
+ * A spending cap on part of the traffic. Without a scope the rule covers all
+ * requests; with `match: '*'` every user/project/... gets its own cap.
+ */
+export interface BudgetRule {
+  name?: string;
+  scope?: BudgetScope;
+  match?: string;
+  window: BudgetWindow; // calendar periods in UTC; weeks start on Monday
+  limitUSD: number;
+  warnAtPercent?: number; // warn once spend reaches this share of the limit
+  action?: 'block' | 'warn'; // what happens over the limit (default: block)
+}
 
 export interface BudgetsPolicy {
   version?: string;
   monthlyUSD?: number; // global monthly cap
   perProviderMonthlyUSD?: Record<string, number>; // caps per provider name
-  webhookUrl?: string; // optional webhook for alerts
+  budgets?: BudgetRule[]; // scoped caps, checked together with the two above
+  preflight?: PreflightPolicy;
+  alerts?: AlertChannel[]; // where budget warnings and breaches are sent (see alerts.ts)
+  webhookUrl?: string; // legacy single webhook; treated as a `webhook` alert channel
+  blockUnpricedModels?: boolean; // reject requests for models missing from the pricing catalog
+}
+
+/**
+ * How the proxy projects a request's cost before forwarding it
+ */
+export interface PreflightPolicy {
+  projectCost?: boolean; // block on spend + worst-case cost of the request (default: true)
+  defaultMaxOutputTokens?: number; // assumed output when a request sets no limit
+  downgrade?: Record<string, string>; // model -> cheaper model to try before blocking
+}
+
+/**
+ * What a budget rule is matched against: a request about to be sent, or a logged interaction
+ */
+export interface SpendAttributes {
+  provider?: string;
+  model?: string;
+  user?: string;
+  team?: string;
+  project?: string;
+  tags?: string[];
+  operation?: string; // chat, embeddings, image, audio or batch
+}
+
+export interface SpendRecord extends SpendAttributes {
+  timestamp: string;
+  costUSD: number;
 }
 
+export interface BudgetStatus {
+  rule: BudgetRule;
+  label: string; // e.g. "user alice (daily)"
+  spentUSD: number;
+  projectedUSD?: number; // spend plus the worst-case cost of the request being checked
+  limitUSD: number;
+  state: 'ok' | 'warn' | 'exceeded';
+}
+
+export const POLICY_FILE = 'toknxr.policy.json';
+
 export function loadPolicy(cwd: string = process.cwd()): BudgetsPolicy | null {
-  const policyPath = path.resolve(cwd, 'toknxr.policy.json');
+  const policyPath = path.resolve(cwd, POLICY_FILE);
   if (!fs.existsSync(policyPath)) return null;
   try {
     const raw = fs.readFileSync(policyPath, 'utf8');
@@ -21,14 +81,62 @@ export function loadPolicy(cwd: string = process.cwd()): BudgetsPolicy | null {
   }
 }
 
+/**
+ * Keeps the latest toknxr.policy.json in memory and reloads it when the file changes,
+ * so a running proxy picks up new budgets without a restart. An edit that does not
+ * parse keeps the previous policy in force.
+ */
+export class PolicyWatcher {
+  private policy: BudgetsPolicy | null;
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(private cwd: string = process.cwd()) {
+    this.policy = loadPolicy(cwd);
+  }
+
+  current(): BudgetsPolicy | null {
+    return this.policy;
+  }
+
+  /**
+   * Watch the directory rather than the file: editors often save by replacing it
+   */
+  watch(onReload?: (policy: BudgetsPolicy | null) => void): void {
+    this.watcher = fs.watch(this.cwd, { persistent: false }, (_event, filename) => {
+      if (filename && filename.toString() !== POLICY_FILE) return;
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        const exists = fs.existsSync(path.resolve(this.cwd, POLICY_FILE));
+        const next = exists ? loadPolicy(this.cwd) : null;
+        if (exists && !next) return; // unreadable; loadPolicy has logged why
+        this.policy = next;
+        onReload?.(next);
+      }, 100);
+    });
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+  }
+}
+
 export function currentMonthKey(date = new Date()): string {
   return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
 }
 
 export function computeMonthlySpend(logFilePath: string, monthKey: string) {
-  const sums = { total: 0, byProvider: {} as Record<string, number> };
-  if (!fs.existsSync(logFilePath)) return sums;
-  const lines = fs.readFileSync(logFilePath, 'utf8').trim().split('\n').filter(Boolean);
+  const sums = {
+    total: 0,
+    byProvider: {} as Record<string, number>,
+    byUser: {} as Record<string, number>, // lines without a user are left out
+    byTeam: {} as Record<string, number>,
+  };
+  // Segments rotated out before the month began cannot hold any of its lines
+  const [year, month] = monthKey.split('-').map(Number);
+  const since = new Date(Date.UTC(year, month - 1, 1));
+  const lines = readInteractionLog(logFilePath, { since }).split('\n').filter(Boolean);
   for (const line of lines) {
     try {
       const j = JSON.parse(line);
@@ -38,6 +146,8 @@ export function computeMonthlySpend(logFilePath: string, monthKey: string) {
       const cost = Number(j.costUSD || 0);
       sums.total += cost;
       sums.byProvider[j.provider] = (sums.byProvider[j.provider] || 0) + cost;
+      if (j.user) sums.byUser[j.user] = (sums.byUser[j.user] || 0) + cost;
+      if (j.team) sums.byTeam[j.team] = (sums.byTeam[j.team] || 0) + cost;
     } catch (error) {
         console.warn('Skipping invalid log entry in policy check', error);
     }
@@ -45,11 +155,248 @@ export function computeMonthlySpend(logFilePath: string, monthKey: string) {
   return sums;
 }
 
-export async function sendBudgetAlert(webhookUrl: string, payload: any) {
-  try {
-    await axios.post(webhookUrl, payload, { timeout: 5000 });
-  } catch (error) {
-    console.error('Error sending budget alert:', error);
+/**
+ * All caps in a policy as rules, including the legacy monthlyUSD and perProviderMonthlyUSD
+ */
+export function budgetRules(policy: BudgetsPolicy): BudgetRule[] {
+  const rules: BudgetRule[] = [];
+  if (policy.monthlyUSD) {
+    rules.push({ name: 'monthlyUSD', window: 'monthly', limitUSD: policy.monthlyUSD });
+  }
+  for (const [provider, cap] of Object.entries(policy.perProviderMonthlyUSD || {})) {
+    if (typeof cap === 'number') {
+      rules.push({ name: 'perProviderMonthlyUSD', scope: 'provider', match: provider, window: 'monthly', limitUSD: cap });
+    }
   }
+  return rules.concat(policy.budgets || []);
+}
+
+export function windowStart(window: BudgetWindow, now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (window === 'weekly') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  if (window === 'monthly') start.setUTCDate(1);
+  return start;
+}
+
+/**
+ * When the current period of a window ends and its spend starts again from zero
+ */
+export function windowEnd(window: BudgetWindow, now: Date = new Date()): Date {
+  const end = windowStart(window, now);
+  if (window === 'daily') end.setUTCDate(end.getUTCDate() + 1);
+  if (window === 'weekly') end.setUTCDate(end.getUTCDate() + 7);
+  if (window === 'monthly') end.setUTCMonth(end.getUTCMonth() + 1);
+  return end;
 }
 
+const scopeValues = (attributes: SpendAttributes, scope: BudgetScope): string[] => {
+  if (scope === 'tag') return attributes.tags || [];
+  const value = attributes[scope];
+  return value ? [value] : [];
+};
+
+/**
+ * The scope values of `attributes` a rule caps: [''] for an unscoped rule, none when it does not apply
+ */
+const ruleKeys = (rule: BudgetRule, attributes: SpendAttributes): string[] => {
+  if (!rule.scope) return [''];
+  const values = scopeValues(attributes, rule.scope);
+  return !rule.match || rule.match === '*' ? values : values.filter(value => value === rule.match);
+};
+
+const stringField = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+/**
+ * The spend-relevant fields of an interactions.log entry, or null for an entry without a
+ * timestamp or for a failed request
+ */
+export function toSpendRecord(value: unknown): SpendRecord | null {
+  if (!value || typeof value !== 'object') return null;
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.timestamp !== 'string' || isFailedInteraction({ outcome: stringField(entry.outcome) })) return null;
+  return {
+    timestamp: entry.timestamp,
+    costUSD: Number(entry.costUSD || 0),
+    provider: stringField(entry.provider),
+    model: stringField(entry.model),
+    user: stringField(entry.user),
+    team: stringField(entry.team),
+    project: stringField(entry.project),
+    tags: Array.isArray(entry.tags) ? entry.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+    operation: stringField(entry.operation) || 'chat', // lines from before operations were tracked are all chat
+  };
+}
+
+export function parseSpendRecords(text: string): SpendRecord[] {
+  const records: SpendRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = toSpendRecord(JSON.parse(line));
+      if (record) records.push(record);
+    } catch {
+      // Partial or corrupt line; it carries no cost we can attribute
+    }
+  }
+  return records;
+}
+
+/**
+ * Spend records from the log and its rotated segments; `since` skips segments rotated out before it
+ */
+export function readSpendRecords(logFilePath: string, since?: Date): SpendRecord[] {
+  return parseSpendRecords(readInteractionLog(logFilePath, { since }));
+}
+
+const BUDGET_WINDOWS: BudgetWindow[] = ['daily', 'weekly', 'monthly'];
+const BUDGET_SCOPES: BudgetScope[] = ['user', 'team', 'project', 'model', 'tag', 'provider', 'operation'];
+
+const periodKey = (window: BudgetWindow, at: Date): string => `${window}:${windowStart(window, at).toISOString()}`;
+const dimensionKey = (scope: BudgetScope, value: string): string => `${scope}\u0000${value}`;
+
+/**
+ * Running spend totals per budget window period and per user/team/project/model/tag/provider/operation,
+ * so budget checks are lookups rather than a scan of the whole log
+ */
+export class SpendAggregate {
+  private periods: Map<string, Map<string, number>> = new Map();
+
+  static fromRecords(records: SpendRecord[]): SpendAggregate {
+    const aggregate = new SpendAggregate();
+    records.forEach(record => aggregate.add(record));
+    return aggregate;
+  }
+
+  add(record: SpendRecord): void {
+    const at = new Date(record.timestamp);
+    if (isNaN(at.getTime())) return;
+    for (const window of BUDGET_WINDOWS) {
+      const key = periodKey(window, at);
+      let totals = this.periods.get(key);
+      if (!totals) this.periods.set(key, (totals = new Map()));
+      const bump = (dimension: string) => totals!.set(dimension, (totals!.get(dimension) || 0) + record.costUSD);
+      bump('');
+      for (const scope of BUDGET_SCOPES) {
+        scopeValues(record, scope).forEach(value => bump(dimensionKey(scope, value)));
+      }
+    }
+  }
+
+  /**
+   * Spend per scope value within a rule's current window ('' for unscoped rules)
+   */
+  spend(rule: BudgetRule, now: Date = new Date()): Record<string, number> {
+    const totals = this.periods.get(periodKey(rule.window, now));
+    if (!totals) return {};
+    if (!rule.scope) return { '': totals.get('') || 0 };
+    if (rule.match && rule.match !== '*') return { [rule.match]: totals.get(dimensionKey(rule.scope, rule.match)) || 0 };
+    const prefix = dimensionKey(rule.scope, '');
+    const spend: Record<string, number> = {};
+    for (const [dimension, total] of totals) {
+      if (dimension.startsWith(prefix)) spend[dimension.slice(prefix.length)] = total;
+    }
+    return spend;
+  }
+
+  /**
+   * This month's totals in the shape of computeMonthlySpend
+   */
+  monthlyTotals(now: Date = new Date()) {
+    const totals = this.periods.get(periodKey('monthly', now)) || new Map<string, number>();
+    const sums = {
+      total: totals.get('') || 0,
+      byProvider: {} as Record<string, number>,
+      byUser: {} as Record<string, number>,
+      byTeam: {} as Record<string, number>,
+    };
+    const groups: Array<[BudgetScope, Record<string, number>]> = [
+      ['provider', sums.byProvider],
+      ['user', sums.byUser],
+      ['team', sums.byTeam],
+    ];
+    for (const [dimension, total] of totals) {
+      for (const [scope, target] of groups) {
+        const prefix = dimensionKey(scope, '');
+        if (dimension.startsWith(prefix)) target[dimension.slice(prefix.length)] = total;
+      }
+    }
+    return sums;
+  }
+
+  /**
+   * Forget periods that ended before `cutoff`
+   */
+  prune(cutoff: Date): void {
+    for (const key of this.periods.keys()) {
+      const window = key.slice(0, key.indexOf(':')) as BudgetWindow;
+      if (windowEnd(window, new Date(key.slice(key.indexOf(':') + 1))) < cutoff) this.periods.delete(key);
+    }
+  }
+}
+
+const budgetState = (rule: BudgetRule, spentUSD: number, pendingUSD = 0): BudgetStatus['state'] => {
+  if (spentUSD > rule.limitUSD || (pendingUSD > 0 && spentUSD + pendingUSD > rule.limitUSD)) return 'exceeded';
+  if (rule.warnAtPercent !== undefined && rule.limitUSD > 0 && spentUSD >= (rule.warnAtPercent / 100) * rule.limitUSD) {
+    return 'warn';
+  }
+  return 'ok';
+};
+
+export function describeRule(rule: BudgetRule, key: string): string {
+  const subject = rule.scope ? `${rule.scope} ${key}` : 'total';
+  return `${rule.name ? `${rule.name}: ` : ''}${subject} (${rule.window})`;
+}
+
+/**
+ * Check every rule that applies to a request or interaction against the spend so far.
+ * `pendingUSD` is the projected cost of a request not yet sent; a rule it would
+ * push over its limit is reported as exceeded.
+ */
+export function evaluateBudgets(
+  rules: BudgetRule[],
+  spending: SpendAggregate,
+  attributes: SpendAttributes,
+  pendingUSD = 0,
+  now: Date = new Date()
+): BudgetStatus[] {
+  const statuses: BudgetStatus[] = [];
+  for (const rule of rules) {
+    const keys = ruleKeys(rule, attributes);
+    if (keys.length === 0) continue;
+    const spend = spending.spend(rule, now);
+    for (const key of keys) {
+      const spentUSD = spend[key] || 0;
+      statuses.push({
+        rule,
+        label: describeRule(rule, key),
+        spentUSD,
+        ...(pendingUSD > 0 ? { projectedUSD: spentUSD + pendingUSD } : {}),
+        limitUSD: rule.limitUSD,
+        state: budgetState(rule, spentUSD, pendingUSD),
+      });
+    }
+  }
+  return statuses;
+}
+
+/**
+ * Current spend for every rule, and for `match: '*'` rules every value seen in the window (for `budget --view`)
+ */
+export function budgetOverview(rules: BudgetRule[], spending: SpendAggregate, now: Date = new Date()): BudgetStatus[] {
+  return rules.flatMap(rule => {
+    const spend = spending.spend(rule, now);
+    const keys = !rule.scope ? [''] : rule.match && rule.match !== '*' ? [rule.match] : Object.keys(spend);
+    return keys.map(key => ({
+      rule,
+      label: describeRule(rule, key),
+      spentUSD: spend[key] || 0,
+      limitUSD: rule.limitUSD,
+      state: budgetState(rule, spend[key] || 0),
+    }));
+  });
+}
+
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const projected = status.projectedUSD !== undefined ? ` (projected $${status.projectedUSD.toFixed(2)})` : '';
+  return `${status.label} $${status.spentUSD.toFixed(2)}${projected}/$${status.limitUSD.toFixed(2)}`;
+}
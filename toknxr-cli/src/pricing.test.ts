@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  builtInPricingCatalog,
+  computeCostUSD,
+  diffPricingCatalogs,
+  findModelPricing,
+  imagePrice,
+  isModelPriced,
+  loadPricingCatalog,
+  priceAt,
+  resolvePricing,
+  validatePricingCatalog,
+  PRICING_CATALOG_FILE,
+  type PricingCatalog,
+} from './pricing.js';
+
+const catalog: PricingCatalog = {
+  version: 'test',
+  models: {
+    'gpt-4o': {
+      aliases: ['chatgpt-4o-latest'],
+      history: [
+        { effectiveFrom: '2024-01-01', promptPer1M: 5, completionPer1M: 15 },
+        { effectiveFrom: '2024-10-01', promptPer1M: 2.5, completionPer1M: 10, cachedPromptPer1M: 1.25 },
+      ],
+    },
+    'gpt-4o-mini': { history: [{ effectiveFrom: '2024-01-01', promptPer1M: 0.15, completionPer1M: 0.6 }] },
+    llama3: { prefixes: ['meta-llama-3'], history: [{ effectiveFrom: '2024-01-01', promptPer1M: 0, completionPer1M: 0 }] },
+  },
+  fallbackModel: 'gpt-4o-mini',
+};
+
+test('findModelPricing matches by name, alias, then longest prefix', () => {
+  assert.equal(findModelPricing('GPT-4o', catalog)?.matchedBy, 'exact');
+  assert.deepEqual(
+    [findModelPricing('chatgpt-4o-latest', catalog)?.model, findModelPricing('chatgpt-4o-latest', catalog)?.matchedBy],
+    ['gpt-4o', 'alias']
+  );
+  assert.equal(findModelPricing('gpt-4o-mini-2024-07-18', catalog)?.model, 'gpt-4o-mini');
+  assert.equal(findModelPricing('llama3:8b', catalog)?.model, 'llama3');
+  assert.equal(findModelPricing('meta-llama-3-70b', catalog)?.model, 'llama3');
+  assert.equal(findModelPricing('mistral-large', catalog), null);
+});
+
+test('priceAt picks the period in effect, or the earliest before any', () => {
+  const entry = catalog.models['gpt-4o'];
+  assert.equal(priceAt(entry, '2024-06-01')?.promptPer1M, 5);
+  assert.equal(priceAt(entry, '2025-01-01')?.promptPer1M, 2.5);
+  assert.equal(priceAt(entry, '2023-01-01')?.promptPer1M, 5);
+  assert.equal(priceAt({ history: [] }), null);
+});
+
+test('resolvePricing falls back to the fallback model, or leaves the model unpriced', () => {
+  assert.deepEqual(
+    [resolvePricing('mistral-large', '2025-01-01', catalog).model, resolvePricing('mistral-large', '2025-01-01', catalog).matchedBy],
+    ['gpt-4o-mini', 'fallback']
+  );
+  const unpriced = resolvePricing('mistral-large', '2025-01-01', { ...catalog, fallbackModel: null });
+  assert.equal(unpriced.matchedBy, 'unknown');
+  assert.deepEqual(unpriced.rates, { promptPer1M: 0, completionPer1M: 0 });
+  assert.ok(isModelPriced('gpt-4o-2024-08-06', catalog));
+  assert.ok(!isModelPriced('mistral-large', catalog));
+});
+
+test('computeCostUSD prices cached, reasoning and batch tokens at their own rates', () => {
+  const rates = { promptPer1M: 2, completionPer1M: 8, cachedPromptPer1M: 1, reasoningPer1M: 4, batchPromptPer1M: 1.5 };
+  assert.equal(computeCostUSD(rates, 1_000_000, 1_000_000), 10);
+  assert.equal(computeCostUSD(rates, 1_000_000, 1_000_000, { cachedPromptTokens: 500_000, reasoningTokens: 500_000 }), 7.5);
+  assert.equal(computeCostUSD(rates, 1_000_000, 0, { batch: true }), 1.5);
+  assert.equal(computeCostUSD({ promptPer1M: 2, completionPer1M: 0, embeddingPer1M: 0.5 }, 1_000_000, 0, { operation: 'embeddings' }), 0.5);
+  assert.equal(computeCostUSD({ promptPer1M: 2.5, completionPer1M: 10 }, 1000, 500), 0.0075, 'rates are per 1M tokens');
+});
+
+test('computeCostUSD prices images and audio per unit', () => {
+  const rates = { promptPer1M: 0, completionPer1M: 0, perImage: 0.04, perImageBySize: { '1024x1792': 0.08, 'hd 1024x1792': 0.12 } };
+  assert.equal(imagePrice(rates, '1024x1792', 'hd'), 0.12);
+  assert.equal(imagePrice(rates, '1024x1792'), 0.08);
+  assert.equal(imagePrice(rates, '1024x1024', 'hd'), 0.04);
+  assert.equal(computeCostUSD(rates, 0, 0, { operation: 'image', images: 2, imageSize: '1024x1792' }), 0.16);
+  assert.equal(computeCostUSD({ promptPer1M: 0, completionPer1M: 0, perSecond: 0.0001 }, 0, 0, { operation: 'audio', audioSeconds: 90 }), 0.009);
+});
+
+test('validatePricingCatalog reports bad rates, dates and duplicate names', () => {
+  assert.deepEqual(validatePricingCatalog(catalog), []);
+  assert.deepEqual(validatePricingCatalog(builtInPricingCatalog()), []);
+  const errors = validatePricingCatalog({
+    version: '1',
+    fallbackModel: 'missing',
+    models: {
+      a: { aliases: ['b'], history: [{ effectiveFrom: 'soon', promptPer1M: -1, completionPer1M: 1 }] },
+      b: { history: [] },
+      whisper: { history: [{ effectiveFrom: '2024-01-01', perSecond: 0.0001 } as never] },
+    },
+  });
+  assert.deepEqual(errors, [
+    '"fallbackModel" missing is not a model in the catalog',
+    'a history[0]: invalid "effectiveFrom" (soon)',
+    'a history[0]: "promptPer1M" must be a non-negative number',
+    'b: name "b" is already used by a',
+    'b: "history" must contain at least one price period',
+  ]);
+});
+
+test('diffPricingCatalogs lists added, removed and repriced models', () => {
+  const updated: PricingCatalog = {
+    version: 'next',
+    models: {
+      'gpt-4o': { history: [{ effectiveFrom: '2024-01-01', promptPer1M: 2, completionPer1M: 10 }] },
+      'o1': { history: [{ effectiveFrom: '2024-01-01', promptPer1M: 15, completionPer1M: 60 }] },
+    },
+  };
+  assert.deepEqual(diffPricingCatalogs(catalog, updated, new Date('2025-01-01')), [
+    '~ gpt-4o: promptPer1M 2.5 → 2',
+    '~ gpt-4o: cachedPromptPer1M 1.25 → -',
+    '~ gpt-4o: 2 → 1 price periods',
+    '~ gpt-4o: aliases [chatgpt-4o-latest] → []',
+    '- gpt-4o-mini',
+    '- llama3',
+    '+ o1',
+  ]);
+});
+
+test('loadPricingCatalog overlays toknxr.pricing.json on the built-in prices and reloads it when it changes', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-pricing-'));
+  try {
+    assert.equal(loadPricingCatalog(dir).version, 'built-in');
+
+    const file = path.join(dir, PRICING_CATALOG_FILE);
+    fs.writeFileSync(file, JSON.stringify({ version: '7', models: { custom: catalog.models['gpt-4o-mini'] } }));
+    const loaded = loadPricingCatalog(dir);
+    assert.equal(loaded.version, '7');
+    assert.ok(loaded.models.custom);
+    assert.ok(loaded.models['gpt-4o'], 'built-in models are kept');
+
+    fs.writeFileSync(file, JSON.stringify({ version: '8', models: {} }));
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+    assert.equal(loadPricingCatalog(dir).version, '8');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
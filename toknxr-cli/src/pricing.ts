@@ -1,21 +1,441 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Operation } from './operations.js';
+
+// Token rates are USD per 1M tokens, as providers list them; per-unit rates are USD per image or second
 export const modelToPricing = {
     // Gemini (Free tier available)
-    'gemini-2.5-flash': { promptPer1k: 0.15, completionPer1k: 0.60 },
-    'gemini-2.5-pro': { promptPer1k: 0.50, completionPer1k: 1.50 },
-    'gemini-flash-latest': { promptPer1k: 0.15, completionPer1k: 0.60 },
-    'gemini-pro-latest': { promptPer1k: 0.50, completionPer1k: 1.50 },
+    'gemini-2.5-flash': { promptPer1M: 0.15, completionPer1M: 0.60 },
+    'gemini-2.5-pro': { promptPer1M: 0.50, completionPer1M: 1.50 },
+    'gemini-flash-latest': { promptPer1M: 0.15, completionPer1M: 0.60 },
+    'gemini-pro-latest': { promptPer1M: 0.50, completionPer1M: 1.50 },
     // OpenAI (Free tier available for some models)
-    'gpt-4o-mini': { promptPer1k: 0.15, completionPer1k: 0.60 },
-    'gpt-4o': { promptPer1k: 5.00, completionPer1k: 15.00 },
+    'gpt-4o-mini': { promptPer1M: 0.15, completionPer1M: 0.60 },
+    'gpt-4o': { promptPer1M: 5.00, completionPer1M: 15.00 },
     // Free tier models (zero cost)
-    'ollama-llama3': { promptPer1k: 0.00, completionPer1k: 0.00 },
-    'local-model': { promptPer1k: 0.00, completionPer1k: 0.00 },
+    'ollama-llama3': { promptPer1M: 0.00, completionPer1M: 0.00 },
+    'local-model': { promptPer1M: 0.00, completionPer1M: 0.00 },
+    // Embeddings (input tokens only)
+    'text-embedding-3-small': { promptPer1M: 0.02, completionPer1M: 0.00 },
+    'text-embedding-3-large': { promptPer1M: 0.13, completionPer1M: 0.00 },
+    'gemini-embedding-001': { promptPer1M: 0.15, completionPer1M: 0.00 },
+    'text-embedding-004': { promptPer1M: 0.00, completionPer1M: 0.00 },
+    // Images (per image) and speech-to-text (per second of audio)
+    'dall-e-3': {
+        promptPer1M: 0.00,
+        completionPer1M: 0.00,
+        perImage: 0.04,
+        perImageBySize: { '1024x1792': 0.08, '1792x1024': 0.08, 'hd 1024x1024': 0.08, 'hd 1024x1792': 0.12, 'hd 1792x1024': 0.12 },
+    },
+    'dall-e-2': { promptPer1M: 0.00, completionPer1M: 0.00, perImage: 0.02, perImageBySize: { '256x256': 0.016, '512x512': 0.018 } },
+    'whisper-1': { promptPer1M: 0.00, completionPer1M: 0.00, perSecond: 0.0001 },
+    'gpt-image-1': { promptPer1M: 5.00, completionPer1M: 40.00, perImageBySize: { '1024x1024': 0.042, 'high 1024x1024': 0.167 } },
 };
 
-export function estimateCostUSD(model: string, promptTokens: number, completionTokens: number): number {
-    const pricing = modelToPricing[model as keyof typeof modelToPricing] || modelToPricing['gemini-2.5-flash'];
-    const promptK = promptTokens / 1000;
-    const completionK = completionTokens / 1000;
-    const cost = promptK * pricing.promptPer1k + completionK * pricing.completionPer1k;
+export const PRICING_CATALOG_FILE = 'toknxr.pricing.json';
+const FALLBACK_MODEL = 'gemini-2.5-flash';
+const BUILT_IN_EFFECTIVE_FROM = '2024-01-01';
+const UNPRICED_TOKENS = { promptPer1M: 0, completionPer1M: 0 };
+const TOKENS_PER_RATE = 1_000_000;
+
+export interface PriceRates {
+    promptPer1M: number;
+    completionPer1M: number;
+    cachedPromptPer1M?: number; // cached input tokens; defaults to promptPer1M
+    reasoningPer1M?: number; // reasoning tokens (part of completion); defaults to completionPer1M
+    batchPromptPer1M?: number; // batch API input; defaults to promptPer1M
+    batchCompletionPer1M?: number; // batch API output; defaults to completionPer1M
+    embeddingPer1M?: number; // embeddings input; defaults to promptPer1M
+    perImage?: number; // generated image, for models that do not report token usage
+    perImageBySize?: Record<string, number>; // per image by "<size>" or "<quality> <size>", e.g. "hd 1024x1792"
+    perSecond?: number; // second of transcribed or translated audio
+}
+
+export interface PricePeriod extends PriceRates {
+    effectiveFrom: string; // ISO date the price took effect
+}
+
+export interface ModelPricing {
+    aliases?: string[]; // exact alternative names, e.g. dated snapshots
+    prefixes?: string[]; // any model name starting with one of these
+    history: PricePeriod[];
+}
+
+export interface PricingCatalog {
+    version: string;
+    updatedAt?: string;
+    // Model whose prices apply to unrecognised models; null leaves them unpriced (cost 0)
+    fallbackModel?: string | null;
+    models: Record<string, ModelPricing>;
+}
+
+export interface ResolvedPricing {
+    model: string; // canonical catalog entry
+    matchedBy: 'exact' | 'alias' | 'prefix' | 'fallback' | 'unknown';
+    effectiveFrom: string;
+    rates: PriceRates;
+}
+
+/**
+ * How a logged interaction was priced. `fallback` means another model's prices were
+ * borrowed, `unknown` means no price could be applied at all.
+ */
+export type PricingSource = 'exact' | 'alias' | 'fallback' | 'unknown';
+
+export interface CostEstimate {
+    costUSD: number;
+    pricingSource: PricingSource;
+    pricedAs: string; // catalog entry whose prices were used
+}
+
+export interface CostOptions {
+    cachedPromptTokens?: number; // portion of promptTokens served from cache
+    reasoningTokens?: number; // portion of completionTokens spent on reasoning
+    batch?: boolean;
+    operation?: Operation; // embeddings, images and audio have their own rates (default: chat)
+    images?: number;
+    imageSize?: string;
+    imageQuality?: string;
+    audioSeconds?: number;
+    at?: Date | string; // price the usage as of this time (defaults to now)
+}
+
+/**
+ * Catalog built from the hard-coded price table, used when no catalog file overrides a model
+ */
+export function builtInPricingCatalog(): PricingCatalog {
+    const models: Record<string, ModelPricing> = {};
+    for (const [model, rates] of Object.entries(modelToPricing)) {
+        models[model] = { history: [{ effectiveFrom: BUILT_IN_EFFECTIVE_FROM, ...rates }] };
+    }
+    return { version: 'built-in', models };
+}
+
+let cachedCatalog: { key: string; catalog: PricingCatalog } | null = null;
+
+/**
+ * Load toknxr.pricing.json (if present) merged over the built-in prices.
+ * Models in the file replace built-in entries of the same name.
+ */
+export function loadPricingCatalog(cwd: string = process.cwd()): PricingCatalog {
+    const catalogPath = path.resolve(cwd, PRICING_CATALOG_FILE);
+    const mtime = fs.existsSync(catalogPath) ? fs.statSync(catalogPath).mtimeMs : 0;
+    const key = `${catalogPath}:${mtime}`;
+    if (cachedCatalog && cachedCatalog.key === key) return cachedCatalog.catalog;
+
+    let catalog = builtInPricingCatalog();
+    if (mtime) {
+        try {
+            catalog = mergeWithBuiltInPricing(readPricingCatalogFile(catalogPath));
+        } catch (error) {
+            console.error(`Error loading ${PRICING_CATALOG_FILE}, using built-in prices:`, error);
+        }
+    }
+
+    cachedCatalog = { key, catalog };
+    return catalog;
+}
+
+/**
+ * Overlay a catalog file's models on the built-in prices
+ */
+export function mergeWithBuiltInPricing(fileCatalog: PricingCatalog): PricingCatalog {
+    return {
+        version: fileCatalog.version,
+        updatedAt: fileCatalog.updatedAt,
+        ...(fileCatalog.fallbackModel !== undefined ? { fallbackModel: fileCatalog.fallbackModel } : {}),
+        models: { ...builtInPricingCatalog().models, ...fileCatalog.models },
+    };
+}
+
+export function readPricingCatalogFile(filePath: string): PricingCatalog {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return {
+        version: String(parsed.version ?? '1'),
+        updatedAt: parsed.updatedAt,
+        ...(parsed.fallbackModel !== undefined ? { fallbackModel: parsed.fallbackModel } : {}),
+        models: parsed.models || {},
+    };
+}
+
+const normalizeModelName = (model: string): string =>
+    model.trim().toLowerCase().replace(/^models\//, '');
+
+/**
+ * Find the catalog entry for a model name: exact name, then alias, then longest prefix.
+ */
+export function findModelPricing(
+    model: string,
+    catalog: PricingCatalog = loadPricingCatalog()
+): { model: string; entry: ModelPricing; matchedBy: 'exact' | 'alias' | 'prefix' } | null {
+    const name = normalizeModelName(model || '');
+    const entries = Object.entries(catalog.models);
+
+    for (const [key, entry] of entries) {
+        if (key.toLowerCase() === name) return { model: key, entry, matchedBy: 'exact' };
+    }
+    for (const [key, entry] of entries) {
+        if (entry.aliases?.some(alias => alias.toLowerCase() === name)) return { model: key, entry, matchedBy: 'alias' };
+    }
+
+    // Dated or suffixed variants (gpt-4o-2024-08-06, llama3:8b) fall back to their family
+    let best: { model: string; entry: ModelPricing; length: number } | null = null;
+    for (const [key, entry] of entries) {
+        const candidates = [...(entry.prefixes || []), `${key}-`, `${key}:`, `${key}@`];
+        for (const prefix of candidates) {
+            const lowered = prefix.toLowerCase();
+            if (name.startsWith(lowered) && (!best || lowered.length > best.length)) {
+                best = { model: key, entry, length: lowered.length };
+            }
+        }
+    }
+    return best ? { model: best.model, entry: best.entry, matchedBy: 'prefix' } : null;
+}
+
+/**
+ * Price period in effect at a given time. Before the first recorded period, the earliest one applies.
+ */
+export function priceAt(entry: ModelPricing, at: Date | string = new Date()): PricePeriod | null {
+    const time = new Date(at).getTime();
+    const history = [...(entry.history || [])].sort(
+        (a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime()
+    );
+    if (history.length === 0) return null;
+
+    let current = history[0];
+    for (const period of history) {
+        if (new Date(period.effectiveFrom).getTime() <= time) current = period;
+    }
+    return current;
+}
+
+/**
+ * Resolve the rates for a model at a point in time. Unrecognised models borrow the
+ * catalog's fallback model prices, or are left unpriced when the fallback is disabled.
+ */
+export function resolvePricing(
+    model: string,
+    at: Date | string = new Date(),
+    catalog: PricingCatalog = loadPricingCatalog()
+): ResolvedPricing {
+    const match = model ? findModelPricing(model, catalog) : null;
+    const period = match ? priceAt(match.entry, at) : null;
+    if (match && period) {
+        const { effectiveFrom, ...rates } = period;
+        // Image and audio models priced per unit may have no token rates
+        return { model: match.model, matchedBy: match.matchedBy, effectiveFrom, rates: { ...UNPRICED_TOKENS, ...rates } };
+    }
+
+    const fallbackModel = catalog.fallbackModel === undefined ? FALLBACK_MODEL : catalog.fallbackModel;
+    const fallbackEntry = fallbackModel
+        ? catalog.models[fallbackModel] || builtInPricingCatalog().models[fallbackModel]
+        : undefined;
+    const fallbackPeriod = model && fallbackEntry ? priceAt(fallbackEntry, at) : null;
+    if (fallbackModel && fallbackPeriod) {
+        const { effectiveFrom, ...rates } = fallbackPeriod;
+        return { model: fallbackModel, matchedBy: 'fallback', effectiveFrom, rates: { ...UNPRICED_TOKENS, ...rates } };
+    }
+
+    return {
+        model: model || 'unknown',
+        matchedBy: 'unknown',
+        effectiveFrom: '',
+        rates: UNPRICED_TOKENS,
+    };
+}
+
+export function toPricingSource(matchedBy: ResolvedPricing['matchedBy']): PricingSource {
+    return matchedBy === 'prefix' ? 'alias' : matchedBy;
+}
+
+/**
+ * True when the model has its own catalog entry (by name, alias or prefix)
+ */
+export function isModelPriced(model: string, catalog: PricingCatalog = loadPricingCatalog()): boolean {
+    return !!model && findModelPricing(model, catalog) !== null;
+}
+
+/**
+ * Price of one image: by quality and size, by size, then the flat per-image rate
+ */
+export function imagePrice(rates: PriceRates, size?: string, quality?: string): number {
+    const bySize = rates.perImageBySize || {};
+    return (quality && size ? bySize[`${quality} ${size}`] : undefined) ?? (size ? bySize[size] : undefined) ?? rates.perImage ?? 0;
+}
+
+/**
+ * Cost of a set of token counts (or images, or seconds of audio) under the given rates
+ */
+export function computeCostUSD(
+    rates: PriceRates,
+    promptTokens: number,
+    completionTokens: number,
+    options: Omit<CostOptions, 'at'> = {}
+): number {
+    // Billed per unit rather than per token
+    if (options.operation === 'image' && options.images && !promptTokens && !completionTokens) {
+        return Number((options.images * imagePrice(rates, options.imageSize, options.imageQuality)).toFixed(6));
+    }
+    if (options.operation === 'audio' && options.audioSeconds !== undefined && rates.perSecond !== undefined) {
+        return Number((options.audioSeconds * rates.perSecond).toFixed(6));
+    }
+
+    const cached = Math.min(options.cachedPromptTokens || 0, promptTokens);
+    const reasoning = Math.min(options.reasoningTokens || 0, completionTokens);
+
+    const promptRate =
+        options.operation === 'embeddings'
+            ? rates.embeddingPer1M ?? rates.promptPer1M
+            : options.batch
+              ? rates.batchPromptPer1M ?? rates.promptPer1M
+              : rates.promptPer1M;
+    const completionRate = options.batch ? rates.batchCompletionPer1M ?? rates.completionPer1M : rates.completionPer1M;
+    const cachedRate = rates.cachedPromptPer1M ?? promptRate;
+    const reasoningRate = rates.reasoningPer1M ?? completionRate;
+
+    const cost =
+        ((promptTokens - cached) / TOKENS_PER_RATE) * promptRate +
+        (cached / TOKENS_PER_RATE) * cachedRate +
+        ((completionTokens - reasoning) / TOKENS_PER_RATE) * completionRate +
+        (reasoning / TOKENS_PER_RATE) * reasoningRate;
     return Number(cost.toFixed(6));
-}
\ No newline at end of file
+}
+
+/**
+ * Cost of an interaction together with how it was priced
+ */
+export function estimateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+    options: CostOptions = {}
+): CostEstimate {
+    const resolved = resolvePricing(model, options.at);
+    return {
+        costUSD: computeCostUSD(resolved.rates, promptTokens, completionTokens, options),
+        pricingSource: toPricingSource(resolved.matchedBy),
+        pricedAs: resolved.model,
+    };
+}
+
+export function estimateCostUSD(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+    options: CostOptions = {}
+): number {
+    return estimateCost(model, promptTokens, completionTokens, options).costUSD;
+}
+
+/**
+ * Check a catalog for structural problems. Returns human-readable errors; empty when valid.
+ */
+export function validatePricingCatalog(catalog: PricingCatalog): string[] {
+    const errors: string[] = [];
+    const claimedNames = new Map<string, string>();
+    const rateFields: Array<keyof PriceRates> = [
+        'promptPer1M',
+        'completionPer1M',
+        'cachedPromptPer1M',
+        'reasoningPer1M',
+        'batchPromptPer1M',
+        'batchCompletionPer1M',
+        'embeddingPer1M',
+        'perImage',
+        'perSecond',
+    ];
+
+    if (!catalog.version) errors.push('Missing "version"');
+    if (!catalog.models || typeof catalog.models !== 'object') {
+        errors.push('Missing "models" object');
+        return errors;
+    }
+    const fallbackModel = catalog.fallbackModel;
+    if (typeof fallbackModel === 'string' && !catalog.models[fallbackModel] && !builtInPricingCatalog().models[fallbackModel]) {
+        errors.push(`"fallbackModel" ${fallbackModel} is not a model in the catalog`);
+    }
+
+    for (const [model, entry] of Object.entries(catalog.models)) {
+        for (const name of [model, ...(entry.aliases || [])]) {
+            const owner = claimedNames.get(name.toLowerCase());
+            if (owner && owner !== model) errors.push(`${model}: name "${name}" is already used by ${owner}`);
+            claimedNames.set(name.toLowerCase(), model);
+        }
+
+        if (!Array.isArray(entry.history) || entry.history.length === 0) {
+            errors.push(`${model}: "history" must contain at least one price period`);
+            continue;
+        }
+
+        const seenDates = new Set<string>();
+        entry.history.forEach((period, index) => {
+            const label = `${model} history[${index}]`;
+            if (!period.effectiveFrom || isNaN(new Date(period.effectiveFrom).getTime())) {
+                errors.push(`${label}: invalid "effectiveFrom" (${period.effectiveFrom})`);
+            } else if (seenDates.has(period.effectiveFrom)) {
+                errors.push(`${label}: duplicate effectiveFrom ${period.effectiveFrom}`);
+            }
+            seenDates.add(period.effectiveFrom);
+
+            // Image and audio models may be priced per unit only
+            const perUnit = period.perImage !== undefined || period.perImageBySize !== undefined || period.perSecond !== undefined;
+            for (const field of rateFields) {
+                const value = period[field];
+                const required = (field === 'promptPer1M' || field === 'completionPer1M') && !perUnit;
+                if (value === undefined && !required) continue;
+                if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                    errors.push(`${label}: "${field}" must be a non-negative number`);
+                }
+            }
+            for (const [size, value] of Object.entries(period.perImageBySize || {})) {
+                if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                    errors.push(`${label}: "perImageBySize.${size}" must be a non-negative number`);
+                }
+            }
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * Describe how the current prices in `to` differ from those in `from`
+ */
+export function diffPricingCatalogs(from: PricingCatalog, to: PricingCatalog, at: Date = new Date()): string[] {
+    const changes: string[] = [];
+    const models = new Set([...Object.keys(from.models), ...Object.keys(to.models)]);
+
+    for (const model of [...models].sort()) {
+        const before = from.models[model];
+        const after = to.models[model];
+        if (!before) {
+            changes.push(`+ ${model}`);
+            continue;
+        }
+        if (!after) {
+            changes.push(`- ${model}`);
+            continue;
+        }
+
+        const beforePrice = priceAt(before, at);
+        const afterPrice = priceAt(after, at);
+        const fields = new Set([...Object.keys(beforePrice || {}), ...Object.keys(afterPrice || {})]);
+        fields.delete('effectiveFrom');
+        for (const field of fields) {
+            // perImageBySize is an object; compare and show it as JSON
+            const a = JSON.stringify(beforePrice?.[field as keyof PriceRates]);
+            const b = JSON.stringify(afterPrice?.[field as keyof PriceRates]);
+            if (a !== b) changes.push(`~ ${model}: ${field} ${a ?? '-'} → ${b ?? '-'}`);
+        }
+        if ((before.history || []).length !== (after.history || []).length) {
+            changes.push(`~ ${model}: ${before.history.length} → ${after.history.length} price periods`);
+        }
+        const aliasesBefore = (before.aliases || []).join(',');
+        const aliasesAfter = (after.aliases || []).join(',');
+        if (aliasesBefore !== aliasesAfter) {
+            changes.push(`~ ${model}: aliases [${aliasesBefore}] → [${aliasesAfter}]`);
+        }
+    }
+
+    return changes;
+}
@@ -0,0 +1,270 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  openAIAdapter,
+  anthropicAdapter,
+  geminiAdapter,
+  ollamaAdapter,
+  getPriorTurns,
+  inferProviderFormat,
+  resolveProviderAdapter,
+  registerProviderAdapter,
+  getProviderAdapter,
+  type ProviderAdapter,
+} from './provider-adapters.js';
+
+const GEMINI_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent';
+
+test('openAI normalizeRequest splits system text and formats tool calls', () => {
+  const conversation = openAIAdapter.normalizeRequest(
+    {
+      model: 'gpt-4o',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: [{ type: 'text', text: 'Weather?' }, { type: 'image_url', image_url: {} }] },
+        { role: 'assistant', content: null, tool_calls: [{ function: { name: 'weather', arguments: '{"city":"Oslo"}' } }] },
+        { role: 'tool', content: 'rain' },
+        { role: 'user', content: 'Thanks' },
+      ],
+    },
+    'https://api.openai.com/v1/chat/completions'
+  );
+  assert.equal(conversation.system, 'Be brief.');
+  assert.equal(conversation.model, 'gpt-4o');
+  assert.equal(conversation.userPrompt, 'Thanks');
+  assert.deepEqual(
+    conversation.messages.map(message => message.role),
+    ['user', 'assistant', 'tool', 'user']
+  );
+  assert.equal(conversation.messages[0].content, 'Weather?\n[image]');
+  assert.equal(conversation.messages[1].content, '[tool call: weather({"city":"Oslo"})]');
+  assert.deepEqual(getPriorTurns(conversation), ['Weather?\n[image]', '[tool call: weather({"city":"Oslo"})]', 'rain']);
+});
+
+test('openAI normalizeRequest accepts the legacy completions prompt', () => {
+  assert.equal(openAIAdapter.normalizeRequest({ prompt: 'Hi' }, '').userPrompt, 'Hi');
+});
+
+test('anthropic normalizeRequest marks tool results and reads block system prompts', () => {
+  const conversation = anthropicAdapter.normalizeRequest(
+    {
+      system: [{ type: 'text', text: 'Be brief.' }],
+      messages: [
+        { role: 'user', content: 'Weather?' },
+        { role: 'assistant', content: [{ type: 'tool_use', name: 'weather', input: { city: 'Oslo' } }] },
+        { role: 'user', content: [{ type: 'tool_result', content: [{ type: 'text', text: 'rain' }] }] },
+      ],
+    },
+    ''
+  );
+  assert.equal(conversation.system, 'Be brief.');
+  assert.deepEqual(
+    conversation.messages.map(message => [message.role, message.content]),
+    [
+      ['user', 'Weather?'],
+      ['assistant', '[tool call: weather({"city":"Oslo"})]'],
+      ['tool', 'rain'],
+    ]
+  );
+  assert.equal(conversation.userPrompt, 'Weather?');
+});
+
+test('gemini normalizeRequest takes the model from the URL', () => {
+  const conversation = geminiAdapter.normalizeRequest(
+    {
+      systemInstruction: { parts: [{ text: 'Be brief.' }] },
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'lookup', args: { q: 1 } } }] },
+        { role: 'user', parts: [{ functionResponse: { response: { ok: true } } }] },
+      ],
+    },
+    GEMINI_URL
+  );
+  assert.equal(conversation.model, 'gemini-1.5-pro');
+  assert.equal(conversation.system, 'Be brief.');
+  assert.deepEqual(
+    conversation.messages.map(message => message.role),
+    ['user', 'assistant', 'tool']
+  );
+});
+
+test('ollama normalizeRequest accepts chat messages and generate prompts', () => {
+  const chat = ollamaAdapter.normalizeRequest({ model: 'llama3', system: 'S', messages: [{ role: 'user', content: 'Hi' }] }, '');
+  assert.equal(chat.system, 'S');
+  assert.equal(chat.userPrompt, 'Hi');
+  assert.equal(ollamaAdapter.normalizeRequest({ prompt: 'Go' }, '').userPrompt, 'Go');
+});
+
+test('normalizeResponse reads each format', () => {
+  assert.deepEqual(
+    openAIAdapter.normalizeResponse({ model: 'gpt-4o', choices: [{ message: { content: 'A' }, finish_reason: 'length' }] }),
+    { text: 'A', model: 'gpt-4o', stopReason: 'length' }
+  );
+  assert.equal(openAIAdapter.normalizeResponse({ choices: [{ text: 'legacy' }] }).text, 'legacy');
+  assert.equal(anthropicAdapter.normalizeResponse({ content: [{ type: 'text', text: 'B' }] }).text, 'B');
+  assert.deepEqual(
+    geminiAdapter.normalizeResponse({ candidates: [{ content: { parts: [{ text: 'C' }] }, finishReason: 'STOP' }], modelVersion: 'g' }),
+    { text: 'C', model: 'g', stopReason: 'stop' }
+  );
+  assert.equal(ollamaAdapter.normalizeResponse({ response: 'D' }).text, 'D');
+});
+
+test('maxOutputTokens reads each format and ignores unlimited values', () => {
+  assert.equal(openAIAdapter.maxOutputTokens?.({ max_completion_tokens: 50, max_tokens: 10 }), 50);
+  assert.equal(anthropicAdapter.maxOutputTokens?.({ max_tokens: 20 }), 20);
+  assert.equal(geminiAdapter.maxOutputTokens?.({ generationConfig: { maxOutputTokens: 30 } }), 30);
+  assert.equal(ollamaAdapter.maxOutputTokens?.({ options: { num_predict: -1 } }), undefined);
+});
+
+test('openAI prepareStreamingRequest asks for usage unless the client chose otherwise', () => {
+  const request: Record<string, unknown> = { stream: true };
+  openAIAdapter.prepareStreamingRequest?.(request);
+  assert.deepEqual(request.stream_options, { include_usage: true });
+
+  const optedOut: Record<string, unknown> = { stream: true, stream_options: null };
+  openAIAdapter.prepareStreamingRequest?.(optedOut);
+  assert.equal(optedOut.stream_options, null);
+});
+
+test('replaceModel rewrites the body, or the URL for gemini', () => {
+  const request: Record<string, unknown> = { model: 'gpt-4o' };
+  assert.equal(openAIAdapter.replaceModel?.(request, 'u', 'gpt-4o-mini'), 'u');
+  assert.equal(request.model, 'gpt-4o-mini');
+  assert.equal(
+    geminiAdapter.replaceModel?.({}, `${GEMINI_URL}?key=k`, 'gemini-1.5-flash'),
+    'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=k'
+  );
+});
+
+test('buildRequest merges turns so roles alternate', () => {
+  const conversation = {
+    system: 'S',
+    messages: [
+      { role: 'user' as const, content: 'a' },
+      { role: 'tool' as const, content: 'b' },
+      { role: 'assistant' as const, content: 'c' },
+    ],
+    userPrompt: 'a',
+  };
+  assert.deepEqual(anthropicAdapter.buildRequest?.(conversation, { model: 'claude' }), {
+    model: 'claude',
+    system: 'S',
+    messages: [
+      { role: 'user', content: 'a\nb' },
+      { role: 'assistant', content: 'c' },
+    ],
+    max_tokens: 4096,
+  });
+  assert.deepEqual(geminiAdapter.buildRequest?.(conversation, { maxOutputTokens: 5 }), {
+    contents: [
+      { role: 'user', parts: [{ text: 'a\nb' }] },
+      { role: 'model', parts: [{ text: 'c' }] },
+    ],
+    systemInstruction: { parts: [{ text: 'S' }] },
+    generationConfig: { maxOutputTokens: 5 },
+  });
+  assert.equal(ollamaAdapter.buildRequest?.(conversation, {}).stream, false);
+});
+
+test('buildResponse reports usage in each format', () => {
+  const response = { text: 'hi', model: 'm', promptTokens: 3, completionTokens: 2 };
+  assert.equal(openAIAdapter.buildResponse?.(response).usage.total_tokens, 5);
+  assert.deepEqual(anthropicAdapter.buildResponse?.(response).usage, { input_tokens: 3, output_tokens: 2 });
+  assert.equal(geminiAdapter.buildResponse?.(response).usageMetadata.totalTokenCount, 5);
+  assert.equal(ollamaAdapter.buildResponse?.(response).eval_count, 2);
+});
+
+test('stop reasons survive translation between formats', () => {
+  const truncated = anthropicAdapter.normalizeResponse({ content: [{ type: 'text', text: 'x' }], stop_reason: 'max_tokens' });
+  assert.equal(truncated.stopReason, 'length');
+  const response = { text: 'x', model: 'm', promptTokens: 1, completionTokens: 1, stopReason: truncated.stopReason };
+  assert.equal(openAIAdapter.buildResponse?.(response).choices[0].finish_reason, 'length');
+  assert.equal(geminiAdapter.buildResponse?.(response).candidates[0].finishReason, 'MAX_TOKENS');
+  assert.equal(ollamaAdapter.buildResponse?.(response).done_reason, 'length');
+
+  const filtered = geminiAdapter.normalizeResponse({ candidates: [{ finishReason: 'SAFETY' }] });
+  assert.equal(anthropicAdapter.buildResponse?.({ ...response, stopReason: filtered.stopReason }).stop_reason, 'refusal');
+  assert.equal(openAIAdapter.buildResponse?.({ ...response, stopReason: undefined }).choices[0].finish_reason, 'stop');
+});
+
+test('isTranslatable accepts text-only conversations and nothing more', () => {
+  const messages = [
+    { role: 'system', content: 'S' },
+    { role: 'user', content: [{ type: 'text', text: 'hi' }] },
+  ];
+  assert.equal(openAIAdapter.isTranslatable?.({ model: 'gpt-4o', messages, max_tokens: 10, stream: false }), true);
+  for (const extra of [
+    { tools: [{ type: 'function', function: { name: 'f' } }] },
+    { tool_choice: 'auto' },
+    { response_format: { type: 'json_object' } },
+    { temperature: 0.2 },
+    { top_p: 0.9 },
+    { stop: ['\n'] },
+  ]) {
+    assert.equal(openAIAdapter.isTranslatable?.({ model: 'gpt-4o', messages, ...extra }), false, JSON.stringify(extra));
+  }
+  assert.equal(
+    openAIAdapter.isTranslatable?.({
+      messages: [{ role: 'assistant', content: null, tool_calls: [{ function: { name: 'f', arguments: '{}' } }] }],
+    }),
+    false
+  );
+  assert.equal(openAIAdapter.isTranslatable?.({ messages: [{ role: 'user', content: [{ type: 'image_url' }] }] }), false);
+  assert.equal(openAIAdapter.isTranslatable?.({ prompt: 'legacy' }), false);
+
+  assert.equal(anthropicAdapter.isTranslatable?.({ model: 'c', system: 'S', messages: [{ role: 'user', content: 'hi' }], max_tokens: 5 }), true);
+  assert.equal(
+    anthropicAdapter.isTranslatable?.({ model: 'c', messages: [{ role: 'user', content: [{ type: 'tool_result', content: 'r' }] }] }),
+    false
+  );
+  assert.equal(anthropicAdapter.isTranslatable?.({ model: 'c', messages: [], temperature: 1 }), false);
+
+  assert.equal(
+    geminiAdapter.isTranslatable?.({ contents: [{ role: 'user', parts: [{ text: 'hi' }] }], generationConfig: { maxOutputTokens: 5 } }),
+    true
+  );
+  assert.equal(
+    geminiAdapter.isTranslatable?.({ contents: [{ role: 'user', parts: [{ text: 'hi' }] }], generationConfig: { temperature: 0 } }),
+    false
+  );
+  assert.equal(geminiAdapter.isTranslatable?.({ contents: [{ parts: [{ functionCall: { name: 'f' } }] }] }), false);
+
+  assert.equal(ollamaAdapter.isTranslatable?.({ model: 'llama3', messages: [{ role: 'user', content: 'hi' }], options: { num_predict: 5 } }), true);
+  assert.equal(ollamaAdapter.isTranslatable?.({ model: 'llama3', messages: [], format: 'json' }), false);
+});
+
+test('billablePath matches only the calls each adapter analyzes', () => {
+  assert.ok(openAIAdapter.billablePath?.test('/v1/chat/completions'));
+  assert.ok(!openAIAdapter.billablePath?.test('/v1/models'));
+  assert.ok(anthropicAdapter.billablePath?.test('/v1/messages'));
+  assert.ok(!anthropicAdapter.billablePath?.test('/v1/messages/count_tokens'));
+  assert.ok(geminiAdapter.billablePath?.test('/v1beta/models/gemini-1.5-pro:generateContent'));
+  assert.ok(geminiAdapter.billablePath?.test('/v1beta/models/gemini-1.5-pro:streamGenerateContent'));
+  assert.ok(!geminiAdapter.billablePath?.test('/v1beta/models/gemini-1.5-pro:countTokens'));
+  assert.ok(ollamaAdapter.billablePath?.test('/api/generate'));
+  assert.ok(!ollamaAdapter.billablePath?.test('/api/tags'));
+});
+
+test('inferProviderFormat guesses from the target URL', () => {
+  assert.equal(inferProviderFormat('https://generativelanguage.googleapis.com/v1beta'), 'gemini');
+  assert.equal(inferProviderFormat('https://api.anthropic.com/v1'), 'anthropic');
+  assert.equal(inferProviderFormat('http://localhost:11434'), 'ollama');
+  assert.equal(inferProviderFormat('https://api.openai.com/v1'), 'openai');
+});
+
+test('resolveProviderAdapter prefers a registered format and falls back to the URL', () => {
+  const custom: ProviderAdapter = { ...openAIAdapter, format: 'custom-test' };
+  registerProviderAdapter(custom);
+  assert.equal(getProviderAdapter('custom-test'), custom);
+  assert.equal(resolveProviderAdapter({ format: 'custom-test', targetUrl: 'http://localhost:11434' }), custom);
+  assert.equal(resolveProviderAdapter({ targetUrl: 'https://api.anthropic.com/v1' }), anthropicAdapter);
+
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    assert.equal(resolveProviderAdapter({ format: 'missing', targetUrl: 'http://localhost:11434' }), ollamaAdapter);
+  } finally {
+    console.warn = warn;
+  }
+});
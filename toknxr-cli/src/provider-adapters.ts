@@ -0,0 +1,589 @@
+import {
+  assembleAnthropicStream,
+  assembleGeminiStream,
+  assembleOllamaStream,
+  assembleOpenAIStream,
+} from './streaming.js';
+
+type JsonObject = Record<string, any>;
+
+/**
+ * Wire formats understood by the proxy. Custom adapters may register additional formats.
+ */
+export type ProviderFormat = 'openai' | 'anthropic' | 'gemini' | 'ollama' | (string & {});
+
+export interface ConversationMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+}
+
+/**
+ * Provider-independent view of a request, used by the analysis pipeline
+ */
+export interface NormalizedConversation {
+  system?: string;
+  messages: ConversationMessage[];
+  userPrompt: string; // text of the most recent user turn
+  model?: string;
+}
+
+/**
+ * Why a response ended, in terms every wire format can express
+ */
+export type StopReason = 'stop' | 'length' | 'content_filter';
+
+/**
+ * Provider-independent view of a (non-streamed or reassembled) response
+ */
+export interface NormalizedResponse {
+  text: string;
+  model?: string;
+  stopReason?: StopReason;
+}
+
+/**
+ * A completed response reduced to what another wire format needs to express it
+ */
+export interface TranslatedResponse {
+  text: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  stopReason?: StopReason; // default: stop
+}
+
+export interface ProviderAdapter {
+  format: ProviderFormat;
+  // URL paths of the calls this adapter can analyze; other requests to the provider are passed
+  // through untouched. Without it every POST is analyzed.
+  billablePath?: RegExp;
+  normalizeRequest(requestData: JsonObject, targetUrl: string): NormalizedConversation;
+  normalizeResponse(responseData: JsonObject): NormalizedResponse;
+  assembleStream(events: JsonObject[]): JsonObject;
+  // Optional hook to adjust a streamed request body before it is forwarded
+  prepareStreamingRequest?(requestData: JsonObject): void;
+  // Output token limit set by the request, if any (used to project worst-case cost)
+  maxOutputTokens?(requestData: JsonObject): number | undefined;
+  // Switch the request to another model; returns the (possibly rewritten) target URL
+  replaceModel?(requestData: JsonObject, targetUrl: string, model: string): string;
+  // True when the request holds only what buildRequest in another format can express: text turns,
+  // a system prompt, the model and an output limit. Other requests are not translated.
+  isTranslatable?(requestData: JsonObject): boolean;
+  // Build a non-streamed request in this format, for a request routed here from another format
+  buildRequest?(conversation: NormalizedConversation, options: { model?: string; maxOutputTokens?: number }): JsonObject;
+  // Express another provider's response in this format, for the client that sent the request
+  buildResponse?(response: TranslatedResponse): JsonObject;
+}
+
+const positiveNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && value > 0 ? value : undefined;
+
+const replaceBodyModel = (requestData: JsonObject, targetUrl: string, model: string): string => {
+  requestData.model = model;
+  return targetUrl;
+};
+
+const formatToolCall = (name: string, args: unknown): string => {
+  const serialized = typeof args === 'string' ? args : JSON.stringify(args ?? {});
+  return `[tool call: ${name}(${serialized})]`;
+};
+
+const joinText = (parts: string[]): string => parts.filter(Boolean).join('\n');
+
+const onlyKeys = (value: unknown, allowed: string[]): boolean =>
+  !!value && typeof value === 'object' && Object.keys(value).every(key => allowed.includes(key));
+
+const stopReasonOf = (reasons: Map<string, StopReason>, value: unknown): StopReason | undefined =>
+  typeof value === 'string' ? reasons.get(value) : undefined;
+
+const lastUserPrompt = (messages: ConversationMessage[]): string => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && messages[i].content) return messages[i].content;
+  }
+  return '';
+};
+
+const buildConversation = (
+  messages: ConversationMessage[],
+  system?: string,
+  model?: string
+): NormalizedConversation => ({
+  ...(system ? { system } : {}),
+  messages,
+  userPrompt: lastUserPrompt(messages),
+  model,
+});
+
+/**
+ * User and assistant turns only, with tool results folded into user turns and
+ * consecutive turns of the same role merged, as the stricter formats require
+ */
+const alternatingTurns = (messages: ConversationMessage[]): Array<{ role: 'user' | 'assistant'; content: string }> => {
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  for (const message of messages) {
+    if (message.role === 'system' || !message.content) continue;
+    const role = message.role === 'assistant' ? 'assistant' : 'user';
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.content = joinText([last.content, message.content]);
+    else turns.push({ role, content: message.content });
+  }
+  return turns;
+};
+
+/**
+ * Contents of the turns that came before the latest user prompt, oldest first
+ */
+export function getPriorTurns(conversation: NormalizedConversation): string[] {
+  let lastUserIndex = conversation.messages.length;
+  for (let i = conversation.messages.length - 1; i >= 0; i--) {
+    if (conversation.messages[i].role === 'user') {
+      lastUserIndex = i;
+      break;
+    }
+  }
+  return conversation.messages
+    .slice(0, lastUserIndex)
+    .map(message => message.content)
+    .filter(Boolean);
+}
+
+// --- OpenAI (chat completions and compatible APIs) ---
+
+const openAIContentToText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return joinText(
+    content.map((part: JsonObject) => {
+      if (part?.type === 'text') return part.text || '';
+      if (part?.type === 'image_url' || part?.type === 'input_image') return '[image]';
+      if (part?.type === 'input_audio') return '[audio]';
+      return '';
+    })
+  );
+};
+
+const isOpenAIText = (content: unknown): boolean =>
+  typeof content === 'string' || (Array.isArray(content) && content.every((part: JsonObject) => part?.type === 'text'));
+
+const OPENAI_STOP_REASONS = new Map<string, StopReason>([
+  ['stop', 'stop'],
+  ['length', 'length'],
+  ['content_filter', 'content_filter'],
+]);
+
+const openAIToolCallsToText = (toolCalls: unknown): string[] =>
+  Array.isArray(toolCalls)
+    ? toolCalls.map((call: JsonObject) => formatToolCall(call?.function?.name || 'unknown', call?.function?.arguments))
+    : [];
+
+export const openAIAdapter: ProviderAdapter = {
+  format: 'openai',
+  billablePath: /\/(chat\/)?completions$/,
+
+  normalizeRequest(requestData) {
+    const systemParts: string[] = [];
+    const messages: ConversationMessage[] = [];
+
+    for (const message of requestData.messages || []) {
+      const text = openAIContentToText(message?.content);
+      if (message?.role === 'system' || message?.role === 'developer') {
+        systemParts.push(text);
+      } else if (message?.role === 'assistant') {
+        messages.push({ role: 'assistant', content: joinText([text, ...openAIToolCallsToText(message.tool_calls)]) });
+      } else if (message?.role === 'tool' || message?.role === 'function') {
+        messages.push({ role: 'tool', content: text });
+      } else {
+        messages.push({ role: 'user', content: text });
+      }
+    }
+
+    // Legacy completions endpoint
+    if (messages.length === 0 && typeof requestData.prompt === 'string') {
+      messages.push({ role: 'user', content: requestData.prompt });
+    }
+
+    return buildConversation(messages, joinText(systemParts), requestData.model);
+  },
+
+  normalizeResponse(responseData) {
+    const choice = responseData.choices?.[0];
+    const text = choice?.message
+      ? joinText([openAIContentToText(choice.message.content), ...openAIToolCallsToText(choice.message.tool_calls)])
+      : choice?.text || '';
+    return { text, model: responseData.model, stopReason: stopReasonOf(OPENAI_STOP_REASONS, choice?.finish_reason) };
+  },
+
+  assembleStream: assembleOpenAIStream,
+
+  prepareStreamingRequest(requestData) {
+    // OpenAI-compatible APIs only report usage on a stream when asked to
+    if (requestData.stream_options === undefined) {
+      requestData.stream_options = { include_usage: true };
+    }
+  },
+
+  maxOutputTokens: requestData =>
+    positiveNumber(requestData.max_completion_tokens) ?? positiveNumber(requestData.max_tokens),
+
+  replaceModel: replaceBodyModel,
+
+  // Chat messages of text only; tools, sampling settings, response formats and the legacy
+  // completions prompt have no translation. stream and user do not change the response.
+  isTranslatable: requestData =>
+    onlyKeys(requestData, ['model', 'messages', 'max_tokens', 'max_completion_tokens', 'stream', 'stream_options', 'user']) &&
+    Array.isArray(requestData.messages) &&
+    requestData.messages.every(
+      (message: JsonObject) =>
+        onlyKeys(message, ['role', 'content']) &&
+        ['system', 'developer', 'user', 'assistant'].includes(message.role) &&
+        isOpenAIText(message.content)
+    ),
+
+  buildRequest: (conversation, { model, maxOutputTokens }) => ({
+    ...(model ? { model } : {}),
+    messages: [
+      ...(conversation.system ? [{ role: 'system', content: conversation.system }] : []),
+      ...alternatingTurns(conversation.messages),
+    ],
+    ...(maxOutputTokens ? { max_tokens: maxOutputTokens } : {}),
+  }),
+
+  buildResponse: response => ({
+    id: `chatcmpl-toknxr-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [{ index: 0, message: { role: 'assistant', content: response.text }, finish_reason: response.stopReason || 'stop' }],
+    usage: {
+      prompt_tokens: response.promptTokens,
+      completion_tokens: response.completionTokens,
+      total_tokens: response.promptTokens + response.completionTokens,
+    },
+  }),
+};
+
+// --- Anthropic (messages API) ---
+
+const anthropicBlocksToText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return joinText(
+    content.map((block: JsonObject) => {
+      switch (block?.type) {
+        case 'text':
+          return block.text || '';
+        case 'tool_use':
+          return formatToolCall(block.name || 'unknown', block.input);
+        case 'tool_result':
+          return anthropicBlocksToText(block.content);
+        case 'image':
+          return '[image]';
+        default:
+          return '';
+      }
+    })
+  );
+};
+
+const isAnthropicText = (content: unknown): boolean =>
+  typeof content === 'string' || (Array.isArray(content) && content.every((block: JsonObject) => block?.type === 'text'));
+
+const ANTHROPIC_STOP_REASONS = new Map<string, StopReason>([
+  ['end_turn', 'stop'],
+  ['stop_sequence', 'stop'],
+  ['max_tokens', 'length'],
+  ['refusal', 'content_filter'],
+]);
+
+const ANTHROPIC_STOP_REASON_NAMES: Record<StopReason, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  content_filter: 'refusal',
+};
+
+export const anthropicAdapter: ProviderAdapter = {
+  format: 'anthropic',
+  billablePath: /\/messages$/,
+
+  normalizeRequest(requestData) {
+    const messages: ConversationMessage[] = [];
+
+    for (const message of requestData.messages || []) {
+      const blocks = Array.isArray(message?.content) ? message.content : [];
+      const isToolResult = blocks.length > 0 && blocks.every((b: JsonObject) => b?.type === 'tool_result');
+      messages.push({
+        role: message?.role === 'assistant' ? 'assistant' : isToolResult ? 'tool' : 'user',
+        content: anthropicBlocksToText(message?.content),
+      });
+    }
+
+    return buildConversation(messages, anthropicBlocksToText(requestData.system), requestData.model);
+  },
+
+  normalizeResponse(responseData) {
+    return {
+      text: anthropicBlocksToText(responseData.content),
+      model: responseData.model,
+      stopReason: stopReasonOf(ANTHROPIC_STOP_REASONS, responseData.stop_reason),
+    };
+  },
+
+  assembleStream: assembleAnthropicStream,
+
+  maxOutputTokens: requestData => positiveNumber(requestData.max_tokens),
+
+  replaceModel: replaceBodyModel,
+
+  // Text blocks only; tools, images, sampling settings and thinking have no translation
+  isTranslatable: requestData =>
+    onlyKeys(requestData, ['model', 'messages', 'system', 'max_tokens', 'stream', 'metadata']) &&
+    (requestData.system === undefined || isAnthropicText(requestData.system)) &&
+    Array.isArray(requestData.messages) &&
+    requestData.messages.every(
+      (message: JsonObject) =>
+        onlyKeys(message, ['role', 'content']) && ['user', 'assistant'].includes(message.role) && isAnthropicText(message.content)
+    ),
+
+  buildRequest: (conversation, { model, maxOutputTokens }) => ({
+    ...(model ? { model } : {}),
+    ...(conversation.system ? { system: conversation.system } : {}),
+    messages: alternatingTurns(conversation.messages),
+    max_tokens: maxOutputTokens || 4096, // required by the messages API
+  }),
+
+  buildResponse: response => ({
+    id: `msg_toknxr_${Date.now()}`,
+    type: 'message',
+    role: 'assistant',
+    model: response.model,
+    content: [{ type: 'text', text: response.text }],
+    stop_reason: ANTHROPIC_STOP_REASON_NAMES[response.stopReason || 'stop'],
+    usage: { input_tokens: response.promptTokens, output_tokens: response.completionTokens },
+  }),
+};
+
+// --- Google Gemini (generateContent) ---
+
+const geminiPartsToText = (parts: unknown): string => {
+  if (!Array.isArray(parts)) return '';
+  return joinText(
+    parts.map((part: JsonObject) => {
+      if (typeof part?.text === 'string') return part.text;
+      if (part?.functionCall) return formatToolCall(part.functionCall.name || 'unknown', part.functionCall.args);
+      if (part?.functionResponse) return JSON.stringify(part.functionResponse.response ?? {});
+      if (part?.inlineData || part?.fileData) return '[attachment]';
+      return '';
+    })
+  );
+};
+
+const isGeminiText = (content: unknown): boolean =>
+  onlyKeys(content, ['role', 'parts']) &&
+  Array.isArray((content as JsonObject).parts) &&
+  (content as JsonObject).parts.every((part: JsonObject) => onlyKeys(part, ['text']));
+
+const GEMINI_STOP_REASONS = new Map<string, StopReason>([
+  ['STOP', 'stop'],
+  ['MAX_TOKENS', 'length'],
+  ['SAFETY', 'content_filter'],
+  ['RECITATION', 'content_filter'],
+  ['BLOCKLIST', 'content_filter'],
+  ['PROHIBITED_CONTENT', 'content_filter'],
+  ['SPII', 'content_filter'],
+]);
+
+const GEMINI_STOP_REASON_NAMES: Record<StopReason, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY',
+};
+
+export const geminiAdapter: ProviderAdapter = {
+  format: 'gemini',
+  billablePath: /:(generateContent|streamGenerateContent)$/,
+
+  normalizeRequest(requestData, targetUrl) {
+    const messages: ConversationMessage[] = [];
+
+    for (const content of requestData.contents || []) {
+      const parts = Array.isArray(content?.parts) ? content.parts : [];
+      const isToolResult = parts.length > 0 && parts.every((p: JsonObject) => p?.functionResponse);
+      messages.push({
+        role: content?.role === 'model' ? 'assistant' : isToolResult ? 'tool' : 'user',
+        content: geminiPartsToText(parts),
+      });
+    }
+
+    const system = geminiPartsToText(requestData.systemInstruction?.parts ?? requestData.system_instruction?.parts);
+    const model = targetUrl.match(/\/models\/([^/:?]+)/)?.[1];
+    return buildConversation(messages, system, model);
+  },
+
+  normalizeResponse(responseData) {
+    return {
+      text: geminiPartsToText(responseData.candidates?.[0]?.content?.parts),
+      model: responseData.model || responseData.modelVersion,
+      stopReason: stopReasonOf(GEMINI_STOP_REASONS, responseData.candidates?.[0]?.finishReason),
+    };
+  },
+
+  assembleStream: assembleGeminiStream,
+
+  maxOutputTokens: requestData => positiveNumber(requestData.generationConfig?.maxOutputTokens),
+
+  // The model is part of the URL: .../models/<model>:generateContent
+  replaceModel: (requestData, targetUrl, model) => targetUrl.replace(/(\/models\/)[^/:?]+/, `$1${model}`),
+
+  // Text parts only; tools, files, safety and other generation settings have no translation
+  isTranslatable: requestData =>
+    onlyKeys(requestData, ['contents', 'systemInstruction', 'system_instruction', 'generationConfig']) &&
+    (requestData.generationConfig === undefined || onlyKeys(requestData.generationConfig, ['maxOutputTokens'])) &&
+    [requestData.systemInstruction, requestData.system_instruction].every(system => system === undefined || isGeminiText(system)) &&
+    Array.isArray(requestData.contents) &&
+    requestData.contents.every((content: JsonObject) => isGeminiText(content) && ['user', 'model', undefined].includes(content.role)),
+
+  // The model is not part of the body; see replaceModel
+  buildRequest: (conversation, { maxOutputTokens }) => ({
+    contents: alternatingTurns(conversation.messages).map(turn => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: turn.content }],
+    })),
+    ...(conversation.system ? { systemInstruction: { parts: [{ text: conversation.system }] } } : {}),
+    ...(maxOutputTokens ? { generationConfig: { maxOutputTokens } } : {}),
+  }),
+
+  buildResponse: response => ({
+    candidates: [
+      {
+        content: { role: 'model', parts: [{ text: response.text }] },
+        finishReason: GEMINI_STOP_REASON_NAMES[response.stopReason || 'stop'],
+        index: 0,
+      },
+    ],
+    usageMetadata: {
+      promptTokenCount: response.promptTokens,
+      candidatesTokenCount: response.completionTokens,
+      totalTokenCount: response.promptTokens + response.completionTokens,
+    },
+    modelVersion: response.model,
+  }),
+};
+
+// --- Ollama (/api/chat and /api/generate) ---
+
+export const ollamaAdapter: ProviderAdapter = {
+  format: 'ollama',
+  billablePath: /\/api\/(chat|generate)$/,
+
+  normalizeRequest(requestData) {
+    const systemParts: string[] = requestData.system ? [requestData.system] : [];
+    const messages: ConversationMessage[] = [];
+
+    for (const message of requestData.messages || []) {
+      const text = typeof message?.content === 'string' ? message.content : '';
+      if (message?.role === 'system') {
+        systemParts.push(text);
+      } else if (message?.role === 'assistant') {
+        const toolCalls = (message.tool_calls || []).map((call: JsonObject) =>
+          formatToolCall(call?.function?.name || 'unknown', call?.function?.arguments)
+        );
+        messages.push({ role: 'assistant', content: joinText([text, ...toolCalls]) });
+      } else if (message?.role === 'tool') {
+        messages.push({ role: 'tool', content: text });
+      } else {
+        messages.push({ role: 'user', content: text });
+      }
+    }
+
+    if (messages.length === 0 && typeof requestData.prompt === 'string') {
+      messages.push({ role: 'user', content: requestData.prompt });
+    }
+
+    return buildConversation(messages, joinText(systemParts), requestData.model);
+  },
+
+  normalizeResponse(responseData) {
+    return {
+      text: responseData.message?.content ?? responseData.response ?? '',
+      model: responseData.model,
+      stopReason: responseData.done_reason === 'length' ? 'length' : responseData.done_reason === 'stop' ? 'stop' : undefined,
+    };
+  },
+
+  assembleStream: assembleOllamaStream,
+
+  maxOutputTokens: requestData => positiveNumber(requestData.options?.num_predict), // -1 means unlimited
+
+  replaceModel: replaceBodyModel,
+
+  // /api/chat text messages only; tools, images, formats and other options have no translation
+  isTranslatable: requestData =>
+    onlyKeys(requestData, ['model', 'messages', 'system', 'stream', 'options', 'keep_alive']) &&
+    (requestData.options === undefined || onlyKeys(requestData.options, ['num_predict'])) &&
+    Array.isArray(requestData.messages) &&
+    requestData.messages.every(
+      (message: JsonObject) =>
+        onlyKeys(message, ['role', 'content']) &&
+        ['system', 'user', 'assistant'].includes(message.role) &&
+        typeof message.content === 'string'
+    ),
+
+  buildRequest: (conversation, { model, maxOutputTokens }) => ({
+    ...(model ? { model } : {}),
+    messages: [
+      ...(conversation.system ? [{ role: 'system', content: conversation.system }] : []),
+      ...alternatingTurns(conversation.messages),
+    ],
+    stream: false, // Ollama streams unless told not to
+    ...(maxOutputTokens ? { options: { num_predict: maxOutputTokens } } : {}),
+  }),
+
+  buildResponse: response => ({
+    model: response.model,
+    created_at: new Date().toISOString(),
+    message: { role: 'assistant', content: response.text },
+    done: true,
+    done_reason: response.stopReason === 'length' ? 'length' : 'stop',
+    prompt_eval_count: response.promptTokens,
+    eval_count: response.completionTokens,
+  }),
+};
+
+// --- Registry ---
+
+const adapters = new Map<string, ProviderAdapter>();
+
+/**
+ * Register (or replace) the adapter for a wire format
+ */
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  adapters.set(adapter.format, adapter);
+}
+
+export function getProviderAdapter(format: ProviderFormat): ProviderAdapter | undefined {
+  return adapters.get(format);
+}
+
+/**
+ * Guess the wire format from the upstream URL for configs that predate the `format` field
+ */
+export function inferProviderFormat(targetUrl: string): ProviderFormat {
+  if (/generativelanguage\.googleapis\.com|:(stream)?generateContent/i.test(targetUrl)) return 'gemini';
+  if (/anthropic\.com|\/v1\/messages/i.test(targetUrl)) return 'anthropic';
+  if (/:11434|\/api\/(chat|generate)\b/i.test(targetUrl)) return 'ollama';
+  return 'openai';
+}
+
+/**
+ * Pick the adapter for a configured provider, falling back to URL inference
+ */
+export function resolveProviderAdapter(provider: { format?: ProviderFormat; targetUrl: string }): ProviderAdapter {
+  if (provider.format) {
+    const adapter = adapters.get(provider.format);
+    if (adapter) return adapter;
+    console.warn(`Unknown provider format "${provider.format}", inferring from target URL instead`);
+  }
+  return adapters.get(inferProviderFormat(provider.targetUrl)) || openAIAdapter;
+}
+
+[openAIAdapter, anthropicAdapter, geminiAdapter, ollamaAdapter].forEach(registerProviderAdapter);
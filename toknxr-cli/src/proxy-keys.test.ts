@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseKeyId, ProxyKeyStore, PROXY_KEYS_FILE } from './proxy-keys.js';
+
+const withDir = (run: (dir: string) => void) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-keys-'));
+  try {
+    run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('parseKeyId reads the id of a proxy key and rejects anything else', () => {
+  assert.equal(parseKeyId('tkx_0a1b2c3d_secret-Value_1'), '0a1b2c3d');
+  assert.equal(parseKeyId('tkx_0A1B2C3D_secret'), null);
+  assert.equal(parseKeyId('sk-proj-123'), null);
+});
+
+test('verify accepts an issued key and rejects a tampered or revoked one', () => {
+  const store = new ProxyKeyStore('unused');
+  const { record, key } = store.create('ana', 'ops');
+  assert.deepEqual([record.name, record.team, parseKeyId(key)], ['ana', 'ops', record.id]);
+  assert.ok(!JSON.stringify(record).includes(key.split('_')[2]), 'only a hash of the secret is kept');
+
+  assert.equal(store.verify(key)?.id, record.id);
+  assert.equal(store.verify(`${key}x`), null);
+
+  assert.equal(store.revoke(record.id)?.id, record.id);
+  assert.equal(store.revoke(record.id), null, 'already revoked');
+  assert.equal(store.verify(key), null);
+  assert.deepEqual(store.active(), []);
+  assert.equal(store.list().length, 1);
+});
+
+test('revoke by name only when exactly one active key has it', () => {
+  const store = new ProxyKeyStore('unused');
+  store.create('ana');
+  store.create('ana');
+  store.create('ben');
+  assert.equal(store.revoke('ana'), null);
+  assert.equal(store.revoke('ben')?.name, 'ben');
+});
+
+test('keys saved by one store are picked up by another on reload', () => {
+  withDir(dir => {
+    const proxy = ProxyKeyStore.load(dir);
+    const cli = ProxyKeyStore.load(dir);
+    const { key } = cli.create('ana');
+    cli.save();
+
+    assert.equal((fs.statSync(path.join(dir, PROXY_KEYS_FILE)).mode & 0o777).toString(8), '600');
+    proxy.reload();
+    assert.equal(proxy.verify(key)?.name, 'ana');
+
+    fs.rmSync(path.join(dir, PROXY_KEYS_FILE));
+    proxy.reload();
+    assert.equal(proxy.verify(key), null);
+  });
+});
+
+test('reload keeps the last good keys when the file cannot be read', () => {
+  withDir(dir => {
+    const store = ProxyKeyStore.load(dir);
+    const { key } = store.create('ana');
+    store.save();
+    store.reload();
+
+    const file = path.join(dir, PROXY_KEYS_FILE);
+    fs.writeFileSync(file, '{broken');
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+    const error = console.error;
+    console.error = () => {};
+    try {
+      store.reload();
+    } finally {
+      console.error = error;
+    }
+    assert.equal(store.verify(key)?.name, 'ana');
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Per-developer keys for a shared proxy (`toknxr keys:create/list/revoke`).
+ *
+ * Only a SHA-256 hash of each key is stored in toknxr.keys.json; the key itself
+ * is shown once when it is created. Keys have the form `tkx_<id>_<secret>`, so the
+ * id of the key a request used can be logged without revealing the secret.
+ */
+
+export const PROXY_KEYS_FILE = 'toknxr.keys.json';
+
+const KEY_PREFIX = 'tkx_';
+
+export interface ProxyKey {
+  id: string;
+  name: string; // who the key was issued to; recorded as the user of each request made with it
+  team?: string;
+  hash: string; // sha256 of the full key
+  createdAt: string;
+  revokedAt?: string;
+}
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * The id embedded in a presented key, or null when it is not a proxy key
+ */
+export function parseKeyId(key: string): string | null {
+  const match = key.match(/^tkx_([0-9a-f]{8})_[A-Za-z0-9_-]+$/);
+  return match ? match[1] : null;
+}
+
+export class ProxyKeyStore {
+  private keys: ProxyKey[] = [];
+  private mtimeMs = 0;
+
+  constructor(private filePath: string) {}
+
+  static load(cwd: string = process.cwd()): ProxyKeyStore {
+    const store = new ProxyKeyStore(path.resolve(cwd, PROXY_KEYS_FILE));
+    store.reload();
+    return store;
+  }
+
+  /**
+   * Re-read the file if it changed since it was last read, so keys created or
+   * revoked while the proxy runs take effect without a restart
+   */
+  reload(): void {
+    if (!fs.existsSync(this.filePath)) {
+      this.keys = [];
+      this.mtimeMs = 0;
+      return;
+    }
+    const mtimeMs = fs.statSync(this.filePath).mtimeMs;
+    if (mtimeMs === this.mtimeMs) return;
+    try {
+      this.keys = JSON.parse(fs.readFileSync(this.filePath, 'utf8')).keys || [];
+      this.mtimeMs = mtimeMs;
+    } catch (error) {
+      // Keep the last good set rather than opening the proxy up
+      console.error(`Could not read ${PROXY_KEYS_FILE}:`, error);
+    }
+  }
+
+  save(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version: 1, keys: this.keys }, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  list(): ProxyKey[] {
+    return [...this.keys];
+  }
+
+  active(): ProxyKey[] {
+    return this.keys.filter(key => !key.revokedAt);
+  }
+
+  /**
+   * Issue a key. The returned `key` is the only copy of the secret.
+   */
+  create(name: string, team?: string): { record: ProxyKey; key: string } {
+    let id = randomBytes(4).toString('hex');
+    while (this.keys.some(existing => existing.id === id)) id = randomBytes(4).toString('hex');
+    const key = `${KEY_PREFIX}${id}_${randomBytes(24).toString('base64url')}`;
+    const record: ProxyKey = {
+      id,
+      name,
+      ...(team ? { team } : {}),
+      hash: hashKey(key),
+      createdAt: new Date().toISOString(),
+    };
+    this.keys.push(record);
+    return { record, key };
+  }
+
+  /**
+   * Revoke by id, or by name when exactly one active key has it
+   */
+  revoke(idOrName: string): ProxyKey | null {
+    const byId = this.keys.find(key => key.id === idOrName);
+    const byName = this.active().filter(key => key.name === idOrName);
+    const target = byId || (byName.length === 1 ? byName[0] : undefined);
+    if (!target || target.revokedAt) return null;
+    target.revokedAt = new Date().toISOString();
+    return target;
+  }
+
+  /**
+   * The active key matching a presented secret, or null
+   */
+  verify(presented: string): ProxyKey | null {
+    const id = parseKeyId(presented);
+    const record = id ? this.keys.find(key => key.id === id && !key.revokedAt) : undefined;
+    if (!record) return null;
+    const expected = Buffer.from(record.hash, 'hex');
+    const actual = Buffer.from(hashKey(presented), 'hex');
+    return timingSafeEqual(expected, actual) ? record : null;
+  }
+}
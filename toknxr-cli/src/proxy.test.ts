@@ -0,0 +1,116 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+let dir: string;
+let upstream: http.Server;
+let proxy: http.Server;
+let proxyUrl: string;
+const upstreamRequests: unknown[] = [];
+
+const ollamaChunks = [
+  { model: 'llama3', message: { role: 'assistant', content: 'Hel' }, done: false },
+  { model: 'llama3', message: { role: 'assistant', content: 'lo' }, done: true, prompt_eval_count: 7, eval_count: 3 },
+];
+const ollamaBody = ollamaChunks.map(chunk => JSON.stringify(chunk)).join('\n') + '\n';
+
+const listening = (server: http.Server) =>
+  new Promise<string>(resolve => {
+    const ready = () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    if (server.listening) ready();
+    else server.once('listening', ready);
+  });
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-proxy-'));
+
+  // A local Ollama that, like the real one, streams NDJSON unless the request says stream: false
+  upstream = http.createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const request = JSON.parse(body);
+    upstreamRequests.push(request);
+    if (request.stream === false) {
+      // Pretty-printed, so the proxy's re-serialized body is shorter than this one
+      const reply = JSON.stringify({ ...ollamaChunks[1], message: { role: 'assistant', content: 'Hello' } }, null, 2);
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(reply) });
+      res.end(reply);
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    res.end(ollamaBody);
+  });
+  upstream.listen(0, '127.0.0.1');
+  const upstreamUrl = await listening(upstream);
+
+  fs.writeFileSync(
+    path.join(dir, 'toknxr.config.json'),
+    JSON.stringify({
+      providers: [
+        {
+          name: 'Ollama-Llama3',
+          routePrefix: '/ollama',
+          targetUrl: `${upstreamUrl}/api/chat`,
+          format: 'ollama',
+          apiKeyEnvVar: null,
+          tokenMapping: { prompt: 'prompt_eval_count', completion: 'eval_count' },
+        },
+      ],
+    })
+  );
+  // The proxy and its audit log work in the current directory, fixed when they are first imported
+  process.chdir(dir);
+  const { startProxyServer } = await import('./proxy.js');
+  proxy = await startProxyServer({ port: 0, host: '127.0.0.1' });
+  proxyUrl = await listening(proxy);
+});
+
+after(() => {
+  proxy.closeAllConnections();
+  proxy.close();
+  upstream.close();
+  process.chdir(os.tmpdir());
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const chat = (body: object) =>
+  fetch(`${proxyUrl}/ollama`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: 'llama3', messages: [{ role: 'user', content: 'Hi' }], ...body }),
+  });
+
+const loggedInteractions = async (count: number) => {
+  const logFile = path.join(dir, 'interactions.log');
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const lines = fs.existsSync(logFile) ? fs.readFileSync(logFile, 'utf8').split('\n').filter(Boolean) : [];
+    if (lines.length >= count) return lines.map(line => JSON.parse(line));
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`expected ${count} logged interactions`);
+};
+
+test('relays an Ollama chat without a stream field as a stream and logs its usage', async () => {
+  const response = await chat({});
+  assert.equal(response.status, 200);
+  assert.equal(await response.text(), ollamaBody);
+
+  const [interaction] = await loggedInteractions(1);
+  assert.equal(interaction.promptTokens, 7);
+  assert.equal(interaction.completionTokens, 3);
+});
+
+test('relays an Ollama chat with stream: false as JSON, without the upstream Content-Length', async () => {
+  const response = await chat({ stream: false });
+  assert.equal(response.status, 200);
+  assert.equal((await response.json()).message.content, 'Hello');
+  assert.equal((upstreamRequests[upstreamRequests.length - 1] as { stream?: boolean }).stream, false);
+
+  const interactions = await loggedInteractions(2);
+  assert.equal(interactions[1].completionTokens, 3);
+});
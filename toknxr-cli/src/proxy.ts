@@ -1,25 +1,101 @@
 import * as http from 'http';
+import * as https from 'https';
 import 'dotenv/config';
 import chalk from 'chalk';
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { randomUUID } from 'node:crypto';
-import { estimateCostUSD } from './pricing.js';
-import { loadPolicy, currentMonthKey, computeMonthlySpend, sendBudgetAlert } from './policy.js';
+import * as os from 'node:os';
+import * as zlib from 'node:zlib';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { estimateCost, isModelPriced, PricingSource } from './pricing.js';
+import {
+  currentMonthKey,
+  budgetRules,
+  evaluateBudgets,
+  formatBudgetStatus,
+  windowEnd,
+  BudgetStatus,
+  PolicyWatcher,
+  SpendAttributes,
+  POLICY_FILE,
+} from './policy.js';
+import { SpendLedger } from './spend-ledger.js';
+import { AlertLog, alertChannels, buildBudgetAlert, dispatchAlert } from './alerts.js';
+import {
+  compressRotatedSegments,
+  isFailedInteraction,
+  INTERACTION_LOG_FILE,
+  readRecentInteractions,
+  rotateInteractionLog,
+} from './interaction-log.js';
+import { projectRequestCost, CostProjection } from './cost-projection.js';
 import { analyzeCodeQuality, scoreEffectiveness, extractCodeFromResponse, CodeQualityMetrics } from './code-analysis.js';
 import { hallucinationDetector, HallucinationDetection } from './hallucination-detector.js';
+import { isStreamingRequest, StreamCollector } from './streaming.js';
+import { resolveProviderAdapter, getPriorTurns, ProviderAdapter, ProviderFormat } from './provider-adapters.js';
+import { classifyTask, retargetRequest, routeRequest, validateRoutingRules, RoutingConfig, RoutingDecision } from './routing.js';
+import {
+  backoffMs,
+  fallbackTarget,
+  isRetriableStatus,
+  parseRetryAfter,
+  validateFallbacks,
+  FailoverConfig,
+  FallbackTarget,
+  ProviderCooldowns,
+  UpstreamAttempt,
+  DEFAULT_MAX_RETRY_AFTER_SECONDS,
+  DEFAULT_RETRIES,
+  DEFAULT_TIMEOUT_SECONDS,
+} from './failover.js';
+import {
+  forwardedHeaders,
+  isBillableRequest,
+  matchProvider,
+  redactQuery,
+  upstreamUrl,
+  CREDENTIAL_HEADERS,
+  PassthroughConfig,
+} from './passthrough.js';
+import { detectOperation, measureOperation, requestedOperationModel, BatchLog, Operation, OperationUsage } from './operations.js';
+import { conversationStore, mergeConversationContext, CONVERSATION_ID_HEADER } from './conversation-store.js';
+import { ProxyKey, ProxyKeyStore } from './proxy-keys.js';
+import { auditLogger, AuditEventType } from './audit-logger.js';
 
-const PORT = 8788;
+const DEFAULT_PORT = 8788;
+const DEFAULT_HOST = '127.0.0.1';
+const PROJECT_HEADER = 'x-toknxr-project';
+const PROXY_KEY_HEADER = 'x-toknxr-key';
+const USER_HEADER = 'x-toknxr-user';
+const TEAM_HEADER = 'x-toknxr-team';
+const TAGS_HEADER = 'x-toknxr-tags';
+const BUDGET_WARNING_HEADER = 'X-Toknxr-Budget-Warning';
+const DOWNGRADED_FROM_HEADER = 'X-Toknxr-Downgraded-From';
+const SERVED_BY_HEADER = 'X-Toknxr-Served-By';
 
 interface AIInteraction {
   timestamp: string;
+  // 'error' lines record a call upstream failed; they carry no usage and cost nothing
+  outcome: 'success' | 'error';
+  status: number; // HTTP status returned to the client
+  operation: Operation; // lines written before this field existed are all chat
   provider: string;
   model: string;
   promptTokens: number;
   completionTokens: number;
   totalTokens: number;
+  cachedPromptTokens?: number;
+  reasoningTokens?: number;
+  // Usage of embeddings, image, audio and batch calls (see operations.ts)
+  images?: number;
+  imageSize?: string;
+  imageQuality?: string;
+  audioSeconds?: number;
+  batchId?: string;
+  usageEstimated?: boolean; // promptTokens estimated from the request; the provider reported none
   costUSD: number;
+  pricingSource: PricingSource; // how costUSD was priced; fallback/unknown mean the model is missing from the catalog
   taskType?: string;
   // New code quality analysis fields
   userPrompt?: string;
@@ -30,6 +106,25 @@ interface AIInteraction {
   effectivenessScore?: number;
   // Hallucination detection
   hallucinationDetection?: HallucinationDetection;
+  // True when the response was relayed to the client as a stream
+  streamed?: boolean;
+  // Client-supplied id grouping requests into one chat session
+  conversationId?: string;
+  // Dashboard project (name or id) from the X-Toknxr-Project header; overrides the sync default
+  project?: string;
+  // Id of the proxy key (toknxr.keys.json) the caller authenticated with
+  keyId?: string;
+  // Who made the call: the proxy key's owner, else X-Toknxr-User, else the OS user running the proxy
+  user?: string;
+  team?: string;
+  // Free-form labels from the comma-separated X-Toknxr-Tags header, matched by `tag` budget rules
+  tags?: string[];
+  // Which routing rule (toknxr.config.json `routing`) picked the provider, and what the client asked for
+  routing?: RoutingDecision;
+  // Upstream calls that failed before `provider` served the request (retries and failover)
+  attempts?: UpstreamAttempt[];
+  // Upstream's error message, or the start of its error body, on 'error' lines
+  error?: string;
 }
 
 // Helper to resolve dot notation paths
@@ -46,23 +141,661 @@ const getValueFromPath = (obj: unknown, path: string): number => {
   }
 };
 
+/**
+ * The `server` section of toknxr.config.json
+ */
+export interface ServerConfig {
+  port?: number;
+  host?: string;
+  tls?: {
+    cert: string; // PEM file paths, relative to toknxr.config.json
+    key: string;
+  };
+  authTokenEnvVar?: string; // shared secret clients may send instead of a per-user key (toknxr.keys.json)
+  compressRotatedLogs?: boolean; // gzip interactions.log segments once they are rotated out
+}
+
+/**
+ * `toknxr start` flags; each one overrides its `server` setting
+ */
+export interface ServerOptions {
+  port?: number;
+  host?: string;
+  tlsCert?: string;
+  tlsKey?: string;
+}
+
 interface ProviderConfig {
+  server?: ServerConfig;
+  routing?: RoutingConfig;
+  failover?: FailoverConfig;
+  passthrough?: PassthroughConfig;
   providers: Array<{
     name: string;
     routePrefix: string;
     targetUrl: string;
+    baseUrl?: string; // API root that paths under routePrefix map to (default: the origin of targetUrl)
     apiKeyEnvVar: string;
     authHeader: string;
+    format?: ProviderFormat; // request/response wire format; inferred from targetUrl when omitted
+    fallback?: FallbackTarget[]; // providers to try, in order, when this one fails
     authScheme?: string;
     tokenMapping: {
       prompt: string;
       completion: string;
       total: string;
+      cached?: string; // cached input tokens (included in prompt)
+      reasoning?: string; // reasoning tokens (included in completion)
     };
   }>;
 }
 
-export const startProxyServer = async () => {
+type ProviderEntry = ProviderConfig['providers'][0];
+
+const readHeader = (req: http.IncomingMessage, name: string): string | undefined => {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+};
+
+const isLoopbackHost = (host: string): boolean =>
+  host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+
+const safeEqual = (a: string, b: string): boolean =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+let osUser: string | undefined;
+try {
+  osUser = os.userInfo().username;
+} catch {
+  // No passwd entry (e.g. an arbitrary container uid)
+}
+
+/**
+ * Attribute a request. A proxy key's owner cannot be overridden by headers;
+ * without a key the client may name itself, else the proxy's OS user is used.
+ */
+const resolveCaller = (req: http.IncomingMessage, key: ProxyKey | null) => ({
+  user: key?.name || readHeader(req, USER_HEADER) || osUser,
+  team: key?.team || readHeader(req, TEAM_HEADER),
+});
+
+/**
+ * The proxy secret a client sent, from X-Toknxr-Key or an `Authorization: Bearer` header
+ */
+const readProxyKey = (req: http.IncomingMessage): string | undefined => {
+  const bearer = readHeader(req, 'authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return readHeader(req, PROXY_KEY_HEADER) || bearer;
+};
+
+// Upstream transport headers that must not be replayed on a re-chunked stream or a re-sent body
+const HOP_BY_HOP_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding', 'content-length', 'content-encoding']);
+
+const toClientHeaders = (headers: Record<string, unknown>): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value === undefined || value === null || HOP_BY_HOP_HEADERS.has(name.toLowerCase())) continue;
+    result[name] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return result;
+};
+
+/**
+ * Headers for a request to a provider: the forwarded client headers, with its API key
+ * from the environment in place of any the client sent
+ */
+const upstreamHeaders = (provider: ProviderEntry, forwarded: Record<string, string> = {}): Record<string, string> => {
+  const headers: Record<string, string> = { ...forwarded };
+  if (provider.apiKeyEnvVar) {
+    const apiKey = process.env[provider.apiKeyEnvVar];
+    if (!apiKey) {
+      throw new Error(`${provider.apiKeyEnvVar} environment variable not set.`);
+    }
+    const authHeader = (provider.authHeader || 'Authorization').toLowerCase();
+    const authScheme = provider.authScheme ? `${provider.authScheme} ` : '';
+    headers[authHeader] = `${authScheme}${apiKey}`;
+  }
+  return headers;
+};
+
+// Upstream response headers a byte-for-byte relay must not repeat; the body keeps its encoding and length
+const CONNECTION_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding']);
+
+interface RelayedResponse {
+  status: number;
+  body?: Buffer; // decoded response body, when captured
+}
+
+/**
+ * A relayed body as the provider meant it; the client got it still compressed
+ */
+const decodeBody = (body: Buffer, encoding: unknown): Buffer => {
+  switch (String(encoding || '').toLowerCase()) {
+    case 'gzip':
+      return zlib.gunzipSync(body);
+    case 'deflate':
+      return zlib.inflateSync(body);
+    case 'br':
+      return zlib.brotliDecompressSync(body);
+    default:
+      return body;
+  }
+};
+
+/**
+ * Forward a call the proxy does not analyze (model lists, files, token counting, ...)
+ * and stream the response back untouched. With `capture` the body is also kept, so
+ * usage can be read from it afterwards.
+ */
+const relayRequest = async (
+  method: string,
+  url: string,
+  body: Buffer,
+  headers: Record<string, string>,
+  res: http.ServerResponse,
+  timeoutMs: number,
+  capture = false
+): Promise<RelayedResponse> => {
+  const response = await axios.request({
+    method,
+    url,
+    data: body.length ? body : undefined,
+    // Without this axios asks for gzip, which would reach a client that did not
+    headers: { 'accept-encoding': 'identity', ...headers },
+    timeout: timeoutMs,
+    responseType: 'stream',
+    decompress: false,
+    maxRedirects: 0,
+    maxBodyLength: Infinity,
+    maxContentLength: Infinity,
+    validateStatus: () => true,
+  });
+  const responseHeaders: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    if (value !== undefined && value !== null && !CONNECTION_HEADERS.has(name.toLowerCase())) {
+      responseHeaders[name] = value as string | string[];
+    }
+  }
+  res.writeHead(response.status, responseHeaders);
+  const chunks: Buffer[] = [];
+  if (capture) response.data.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await new Promise<void>((resolve, reject) => {
+    response.data.on('end', resolve);
+    response.data.on('error', reject);
+    res.on('close', () => {
+      if (!res.writableFinished) response.data.destroy();
+      resolve();
+    });
+    response.data.pipe(res);
+  });
+  if (!capture) return { status: response.status };
+  try {
+    return { status: response.status, body: decodeBody(Buffer.concat(chunks), response.headers['content-encoding']) };
+  } catch {
+    return { status: response.status }; // truncated or not what it claimed to be
+  }
+};
+
+const describeUpstreamError = (error: unknown): string => {
+  const { code, message } = error as { code?: string; message?: string };
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || /timeout/i.test(message || '')) return 'timeout';
+  return code || message || 'unknown error';
+};
+
+/**
+ * An upstream error response, read in full so it can be relayed to the client unchanged
+ */
+interface UpstreamErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+const readErrorResponse = async (response: AxiosResponse, streaming: boolean): Promise<UpstreamErrorResponse> => {
+  let body: Buffer;
+  if (streaming) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response.data) chunks.push(Buffer.from(chunk));
+    body = Buffer.concat(chunks);
+  } else {
+    body = Buffer.from(response.data);
+  }
+  return { status: response.status, headers: toClientHeaders(response.headers), body };
+};
+
+/**
+ * The message of a provider's error body ({ error: { message } } and similar), else its first few hundred characters
+ */
+const errorExcerpt = (body: Buffer): string => {
+  const text = body.toString('utf8');
+  try {
+    const parsed = JSON.parse(text);
+    const error = parsed?.error ?? parsed;
+    const message = typeof error === 'string' ? error : error?.message ?? parsed?.message;
+    if (typeof message === 'string' && message) return message.slice(0, 500);
+  } catch {
+    // Not JSON; fall through to the raw text
+  }
+  return text.trim().slice(0, 500) || 'empty response body';
+};
+
+interface TrackingContext {
+  requestId: string;
+  matchedProvider: ProviderEntry;
+  adapter: ProviderAdapter;
+  targetUrl: string;
+  requestData: any;
+  responseData: any;
+  status: number;
+  streamed?: boolean;
+  conversationId?: string;
+  project?: string;
+  keyId?: string;
+  user?: string;
+  team?: string;
+  tags?: string[];
+  routing?: RoutingDecision;
+  attempts?: UpstreamAttempt[];
+  spendLedger: SpendLedger;
+  policyWatcher: PolicyWatcher;
+  alertLog: AlertLog;
+  compressRotatedLogs?: boolean;
+}
+
+/**
+ * Append a line to interactions.log, rotating the file first once it has grown too large
+ */
+const appendInteraction = (
+  entry: { requestId: string } & AIInteraction,
+  spendLedger: SpendLedger,
+  compressRotatedLogs: boolean
+): string => {
+  const logFilePath = path.resolve(process.cwd(), INTERACTION_LOG_FILE);
+  try {
+    spendLedger.current(); // take in the tail of the current file before it is renamed
+    const rotated = rotateInteractionLog(logFilePath);
+    if (rotated) {
+      spendLedger.rotated();
+      console.log(chalk.gray(`[Proxy] Rotated log to ${rotated}`));
+      if (compressRotatedLogs) compressRotatedSegments(logFilePath);
+    }
+  } catch {}
+  fs.appendFileSync(logFilePath, JSON.stringify(entry) + '\n');
+  return logFilePath;
+};
+
+/**
+ * Run the cost, hallucination and code-quality pipeline for a completed exchange,
+ * append it to interactions.log and check budgets. Shared by buffered and streamed requests.
+ */
+const trackInteraction = async ({
+  requestId,
+  matchedProvider,
+  adapter,
+  targetUrl,
+  requestData,
+  responseData,
+  status,
+  streamed = false,
+  conversationId,
+  project,
+  keyId,
+  user,
+  team,
+  tags,
+  routing,
+  attempts,
+  spendLedger,
+  policyWatcher,
+  alertLog,
+  compressRotatedLogs = false,
+}: TrackingContext) => {
+  // --- Extract User Prompt and AI Response for Analysis ---
+  console.log(chalk.cyan(`[Proxy] Extracting request/response content for analysis... | requestId=${requestId}`));
+
+  const conversation = adapter.normalizeRequest(requestData, targetUrl);
+  const normalizedResponse = adapter.normalizeResponse(responseData);
+  const userPrompt = conversation.userPrompt;
+  const aiResponseText = normalizedResponse.text;
+  const model = normalizedResponse.model || conversation.model || 'unknown';
+
+  // Check if this appears to be a coding request
+  const taskType = classifyTask(userPrompt, aiResponseText);
+
+  // --- Dynamic Data Extraction ---
+  console.log(chalk.cyan(`[Proxy] Extracting interaction data... | requestId=${requestId}`));
+  const mapping = matchedProvider.tokenMapping;
+  const promptTokens = getValueFromPath(responseData, mapping.prompt);
+  const completionTokens = getValueFromPath(responseData, mapping.completion);
+  const totalTokens = getValueFromPath(responseData, mapping.total) || promptTokens + completionTokens;
+  const cachedPromptTokens = mapping.cached ? getValueFromPath(responseData, mapping.cached) : 0;
+  const reasoningTokens = mapping.reasoning ? getValueFromPath(responseData, mapping.reasoning) : 0;
+  const timestamp = new Date().toISOString();
+  const cost = estimateCost(model, promptTokens, completionTokens, { cachedPromptTokens, reasoningTokens, at: timestamp });
+  if (cost.pricingSource === 'fallback' || cost.pricingSource === 'unknown') {
+    console.log(chalk.yellow(`[Proxy] No pricing for model "${model}" (${cost.pricingSource === 'fallback' ? `priced as ${cost.pricedAs}` : 'cost not tracked'}) | requestId=${requestId}`));
+  }
+
+  const interactionData: AIInteraction = {
+    timestamp,
+    outcome: 'success',
+    status,
+    operation: 'chat',
+    provider: matchedProvider.name,
+    model,
+    promptTokens: promptTokens,
+    completionTokens: completionTokens,
+    totalTokens: totalTokens,
+    ...(cachedPromptTokens ? { cachedPromptTokens } : {}),
+    ...(reasoningTokens ? { reasoningTokens } : {}),
+    costUSD: cost.costUSD,
+    pricingSource: cost.pricingSource,
+    taskType,
+    ...(streamed ? { streamed: true } : {}),
+    ...(conversationId ? { conversationId } : {}),
+    ...(project ? { project } : {}),
+    ...(keyId ? { keyId } : {}),
+    ...(user ? { user } : {}),
+    ...(team ? { team } : {}),
+    ...(tags?.length ? { tags } : {}),
+    ...(routing ? { routing } : {}),
+    ...(attempts?.length ? { attempts } : {}),
+  };
+
+  // --- Enhanced AI Analysis (for all requests) ---
+  if (userPrompt && aiResponseText) {
+    console.log(chalk.cyan(`[Proxy] Running AI analysis pipeline... | requestId=${requestId}`));
+
+    // Store original texts for analysis
+    interactionData.userPrompt = userPrompt;
+    interactionData.aiResponse = aiResponseText;
+
+    // Earlier turns from the request body, plus anything remembered for this session
+    const context = conversationId
+      ? mergeConversationContext(conversationStore.getTurns(conversationId), getPriorTurns(conversation))
+      : getPriorTurns(conversation);
+
+    // Run hallucination detection on all interactions
+    const hallucinationDetection = hallucinationDetector.detectHallucination(
+      userPrompt,
+      aiResponseText,
+      context
+    );
+
+    // Add hallucination data to interaction (will be serialized to JSON)
+    interactionData.hallucinationDetection = hallucinationDetection;
+
+    console.log(chalk.cyan(`[Proxy] Hallucination detection complete - Confidence: ${hallucinationDetection.confidence}%, Likely: ${hallucinationDetection.isLikelyHallucination} | requestId=${requestId}`));
+
+    // Code Quality Analysis (if this is a coding request)
+    if (taskType === 'coding') {
+      console.log(chalk.cyan(`[Proxy] Running code quality analysis... | requestId=${requestId}`));
+
+      // Extract code from response
+      const extractedCodeResult = extractCodeFromResponse(aiResponseText);
+      if (extractedCodeResult) {
+        interactionData.extractedCode = extractedCodeResult.code;
+
+        // Analyze code quality
+        const qualityMetrics = analyzeCodeQuality(extractedCodeResult.code, extractedCodeResult.language);
+        interactionData.codeQualityMetrics = qualityMetrics;
+
+        // Calculate overall quality score (0-100)
+        let qualityScore = 50; // Base
+        if (qualityMetrics.syntaxValid) qualityScore += 20;
+        qualityScore += Math.round(qualityMetrics.estimatedReadability * 2); // 0-20
+        if (qualityMetrics.hasFunctions || qualityMetrics.hasClasses) qualityScore += 15;
+        if (qualityMetrics.potentialIssues.length === 0) qualityScore += 10;
+        if (qualityMetrics.linesOfCode > 20) qualityScore += 5; // Substantial implementation
+        interactionData.codeQualityScore = Math.min(100, qualityScore);
+
+        // Score effectiveness (how well the AI understood and fulfilled the request)
+        const effectiveness = scoreEffectiveness(userPrompt, aiResponseText, extractedCodeResult.code);
+        interactionData.effectivenessScore = effectiveness.overallEffectiveness;
+
+        console.log(chalk.green(`[Proxy] Code analysis complete - Quality: ${qualityScore}/100, Effectiveness: ${effectiveness.overallEffectiveness}/100 | requestId=${requestId}`));
+      }
+    }
+
+    if (conversationId) {
+      conversationStore.append(conversationId, [userPrompt, aiResponseText]);
+    }
+  }
+  // ---------------------------
+
+  // --- Local File Logging ---
+  console.log(chalk.cyan(`[Proxy] Logging interaction to local file... | requestId=${requestId}`));
+  const logFilePath = appendInteraction({ requestId, ...interactionData }, spendLedger, compressRotatedLogs);
+  console.log(chalk.green(`[Proxy] Interaction successfully logged to ${logFilePath} | requestId=${requestId}`));
+
+  auditLogger.logAIEvent(
+    AuditEventType.AI_REQUEST,
+    user || 'unknown',
+    model,
+    totalTokens,
+    cost.costUSD,
+    interactionData.codeQualityScore || 0,
+    { requestId, provider: matchedProvider.name, ...(team ? { team } : {}), ...(keyId ? { keyId } : {}) }
+  );
+
+  reviewBudgets(
+    requestId,
+    { provider: matchedProvider.name, model, user, team, project, tags, operation: 'chat' },
+    spendLedger,
+    policyWatcher,
+    alertLog
+  );
+};
+
+/**
+ * After a call is logged: warn about budgets it brought near or over their limits and
+ * send any alerts due
+ */
+const reviewBudgets = (
+  requestId: string,
+  attributes: SpendAttributes,
+  spendLedger: SpendLedger,
+  policyWatcher: PolicyWatcher,
+  alertLog: AlertLog
+) => {
+  // --- Budgets and Alerts ---
+  const policy = policyWatcher.current();
+  const spending = spendLedger.current();
+  if (policy) {
+    const monthKey = currentMonthKey();
+    const statuses = evaluateBudgets(budgetRules(policy), spending, attributes);
+    const breached = statuses.filter(status => status.state === 'exceeded').map(formatBudgetStatus);
+    const warnings = statuses.filter(status => status.state === 'warn').map(formatBudgetStatus);
+    if (warnings.length) {
+      console.log(chalk.yellow(`[Proxy] Budget warning (${warnings.join(', ')}) | requestId=${requestId}`));
+    }
+    // Each threshold alerts once per window; delivery does not hold up the response
+    const channels = alertChannels(policy);
+    const alert = channels.length
+      ? buildBudgetAlert(alertLog.claim(statuses), { requestId, monthKey, totals: spending.monthlyTotals() })
+      : null;
+    if (alert) {
+      alertLog.save();
+      void dispatchAlert(channels, alert).then(results =>
+        results
+          .filter(result => !result.ok)
+          .forEach(result => console.error(chalk.red(`[Proxy] Budget alert via ${result.channel} failed: ${result.error} | requestId=${requestId}`)))
+      );
+    }
+    if (breached.length) {
+      console.log(chalk.red(`[Proxy] Budget breach detected (${breached.join(', ')}) | requestId=${requestId}`));
+    }
+  }
+  // --------------------------
+};
+
+/**
+ * Log a request that failed upstream (or never got an answer), so error rates show up in
+ * `toknxr stats`. It costs nothing and is left out of spend, analytics and sync.
+ */
+const logFailedRequest = ({
+  requestId,
+  provider,
+  model,
+  status,
+  error,
+  operation = 'chat',
+  streamed = false,
+  conversationId,
+  project,
+  keyId,
+  user,
+  team,
+  tags,
+  routing,
+  attempts,
+  spendLedger,
+  compressRotatedLogs = false,
+}: Omit<TrackingContext, 'matchedProvider' | 'adapter' | 'targetUrl' | 'requestData' | 'responseData' | 'policyWatcher' | 'alertLog'> & {
+  provider: ProviderEntry;
+  model?: string;
+  error: string;
+  operation?: Operation;
+}) => {
+  const timestamp = new Date().toISOString();
+  appendInteraction(
+    {
+      requestId,
+      timestamp,
+      outcome: 'error',
+      status,
+      operation,
+      provider: provider.name,
+      model: model || 'unknown',
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUSD: 0,
+      pricingSource: estimateCost(model || 'unknown', 0, 0, { at: timestamp }).pricingSource,
+      ...(streamed ? { streamed: true } : {}),
+      ...(conversationId ? { conversationId } : {}),
+      ...(project ? { project } : {}),
+      ...(keyId ? { keyId } : {}),
+      ...(user ? { user } : {}),
+      ...(team ? { team } : {}),
+      ...(tags?.length ? { tags } : {}),
+      ...(routing ? { routing } : {}),
+      ...(attempts?.length ? { attempts } : {}),
+      error,
+    },
+    spendLedger,
+    compressRotatedLogs
+  );
+  console.log(chalk.gray(`[Proxy] Failed request logged (${status} from ${provider.name}) | requestId=${requestId}`));
+};
+
+/**
+ * Price and log an embeddings, image, audio or batch call, then check budgets. These
+ * carry no conversation, so the hallucination and code-quality analysis is skipped.
+ */
+const trackOperation = ({
+  requestId,
+  matchedProvider,
+  operation,
+  usage,
+  status,
+  project,
+  keyId,
+  user,
+  team,
+  tags,
+  spendLedger,
+  policyWatcher,
+  alertLog,
+  compressRotatedLogs = false,
+}: Pick<
+  TrackingContext,
+  'requestId' | 'matchedProvider' | 'status' | 'project' | 'keyId' | 'user' | 'team' | 'tags' | 'spendLedger' | 'policyWatcher' | 'alertLog' | 'compressRotatedLogs'
+> & {
+  operation: Operation;
+  usage: OperationUsage;
+}) => {
+  const { model, promptTokens, completionTokens } = usage;
+  const timestamp = new Date().toISOString();
+  const cost = estimateCost(model, promptTokens, completionTokens, {
+    operation,
+    images: usage.images,
+    imageSize: usage.imageSize,
+    imageQuality: usage.imageQuality,
+    audioSeconds: usage.audioSeconds,
+    batch: operation === 'batch',
+    at: timestamp,
+  });
+  if (cost.pricingSource === 'fallback' || cost.pricingSource === 'unknown') {
+    console.log(chalk.yellow(`[Proxy] No pricing for model "${model}" (${cost.pricingSource === 'fallback' ? `priced as ${cost.pricedAs}` : 'cost not tracked'}) | requestId=${requestId}`));
+  }
+  if (operation === 'audio' && usage.audioSeconds === undefined && !promptTokens && !completionTokens) {
+    console.log(chalk.yellow(`[Proxy] No duration in the ${model} response (ask for response_format=verbose_json); cost not tracked | requestId=${requestId}`));
+  }
+
+  const logFilePath = appendInteraction(
+    {
+      requestId,
+      timestamp,
+      outcome: 'success',
+      status,
+      operation,
+      provider: matchedProvider.name,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...(usage.images ? { images: usage.images } : {}),
+      ...(usage.imageSize ? { imageSize: usage.imageSize } : {}),
+      ...(usage.imageQuality ? { imageQuality: usage.imageQuality } : {}),
+      ...(usage.audioSeconds !== undefined ? { audioSeconds: usage.audioSeconds } : {}),
+      ...(usage.batchId ? { batchId: usage.batchId } : {}),
+      ...(usage.usageEstimated ? { usageEstimated: true } : {}),
+      costUSD: cost.costUSD,
+      pricingSource: cost.pricingSource,
+      ...(project ? { project } : {}),
+      ...(keyId ? { keyId } : {}),
+      ...(user ? { user } : {}),
+      ...(team ? { team } : {}),
+      ...(tags?.length ? { tags } : {}),
+    },
+    spendLedger,
+    compressRotatedLogs
+  );
+  console.log(chalk.green(`[Proxy] ${operation} call logged to ${logFilePath} ($${cost.costUSD.toFixed(4)}) | requestId=${requestId}`));
+
+  auditLogger.logAIEvent(
+    AuditEventType.AI_REQUEST,
+    user || 'unknown',
+    model,
+    promptTokens + completionTokens,
+    cost.costUSD,
+    0,
+    { requestId, provider: matchedProvider.name, operation, ...(team ? { team } : {}), ...(keyId ? { keyId } : {}) }
+  );
+
+  reviewBudgets(
+    requestId,
+    { provider: matchedProvider.name, model, user, team, project, tags, operation },
+    spendLedger,
+    policyWatcher,
+    alertLog
+  );
+};
+
+/**
+ * The budgets a request was blocked by, as reported in the 429 body
+ */
+const blockedBudgets = (blocking: BudgetStatus[]) =>
+  blocking.map(status => ({
+    rule: status.label,
+    window: status.rule.window,
+    spentUSD: status.spentUSD,
+    ...(status.projectedUSD !== undefined ? { projectedUSD: status.projectedUSD } : {}),
+    limitUSD: status.limitUSD,
+    resetsAt: windowEnd(status.rule.window).toISOString(),
+  }));
+
+export const startProxyServer = async (options: ServerOptions = {}) => {
   // --- Load Provider Config ---
   let providerConfig: ProviderConfig;
   const configPath = path.resolve(process.cwd(), 'toknxr.config.json');
@@ -79,11 +812,80 @@ export const startProxyServer = async () => {
     console.error(chalk.red('[Proxy] Error parsing toknxr.config.json:', error));
     process.exit(1);
   }
+  const routingRules = providerConfig.routing?.rules || [];
+  const configProblems = [
+    ...validateRoutingRules(routingRules, providerConfig.providers).map(problem => `routing rules: ${problem}`),
+    ...validateFallbacks(providerConfig.providers).map(problem => `fallback: ${problem}`),
+  ];
+  if (configProblems.length) {
+    configProblems.forEach(problem => console.error(chalk.red(`[Proxy] Error in toknxr.config.json ${problem}`)));
+    process.exit(1);
+  }
+  const failover = providerConfig.failover || {};
+  const passthrough = providerConfig.passthrough || {};
+  const cooldowns = new ProviderCooldowns();
+  // --------------------------
+
+  // --- Listen Address, TLS and Client Authentication ---
+  const serverConfig = providerConfig.server || {};
+  const port = options.port ?? serverConfig.port ?? DEFAULT_PORT;
+  const host = options.host || serverConfig.host || DEFAULT_HOST;
+  const tlsCert = options.tlsCert || serverConfig.tls?.cert;
+  const tlsKey = options.tlsKey || serverConfig.tls?.key;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(chalk.red(`[Proxy] Error: invalid port "${port}".`));
+    process.exit(1);
+  }
+
+  const authToken = serverConfig.authTokenEnvVar ? process.env[serverConfig.authTokenEnvVar] : undefined;
+  if (serverConfig.authTokenEnvVar && !authToken) {
+    console.error(chalk.red(`[Proxy] Error: ${serverConfig.authTokenEnvVar} (server.authTokenEnvVar) is not set.`));
+    process.exit(1);
+  }
+  const proxyKeys = ProxyKeyStore.load(path.dirname(configPath));
+  // Once authentication is on it stays on, even if every key is later revoked
+  const authAtStartup = !!authToken || proxyKeys.active().length > 0;
+  if (!isLoopbackHost(host) && !authAtStartup) {
+    // Anyone who can reach the port could spend the provider keys the proxy injects
+    console.error(chalk.red(`[Proxy] Refusing to listen on ${host}: binding beyond loopback requires proxy authentication.`));
+    console.error(chalk.yellow(`[Proxy] Issue keys with \`toknxr keys:create <name>\`, set server.authTokenEnvVar, or use --host 127.0.0.1.`));
+    process.exit(1);
+  }
+
+  let tlsOptions: https.ServerOptions | undefined;
+  if (tlsCert || tlsKey) {
+    if (!tlsCert || !tlsKey) {
+      console.error(chalk.red('[Proxy] Error: TLS needs both a certificate and a key.'));
+      process.exit(1);
+    }
+    try {
+      const configDir = path.dirname(configPath);
+      tlsOptions = {
+        cert: fs.readFileSync(path.resolve(configDir, tlsCert)),
+        key: fs.readFileSync(path.resolve(configDir, tlsKey)),
+      };
+    } catch (error) {
+      console.error(chalk.red('[Proxy] Error reading TLS certificate or key:', error));
+      process.exit(1);
+    }
+  }
   // --------------------------
 
-  const server = http.createServer(async (req, res) => {
+  // --- Budget State ---
+  // Spend totals are kept in memory and the policy is reloaded when it changes on disk,
+  // so per-request budget checks do not re-read files
+  const spendLedger = SpendLedger.load(path.resolve(process.cwd(), INTERACTION_LOG_FILE));
+  const policyWatcher = new PolicyWatcher(process.cwd());
+  policyWatcher.watch(policy => {
+    console.log(chalk.yellow(`[Proxy] Reloaded ${POLICY_FILE}${policy ? '' : ' (removed; budgets disabled)'}`));
+  });
+  const alertLog = AlertLog.load(process.cwd());
+  const batchLog = BatchLog.load(process.cwd());
+  // --------------------------
+
+  const handleRequest: http.RequestListener = async (req, res) => {
     const requestId = randomUUID();
-    console.log(chalk.blue(`[Proxy] Received request: ${req.method} ${req.url}`));
+    console.log(chalk.blue(`[Proxy] Received request: ${req.method} ${redactQuery(req.url || '')}`));
 
     // Health check endpoint
     if (req.method === 'GET' && req.url === '/health') {
@@ -99,11 +901,65 @@ export const startProxyServer = async () => {
       return;
     }
 
+    // Enhanced React Dashboard
+    if (req.method === 'GET' && req.url === '/dashboard') {
+      const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>TokNXR Dashboard - AI Analytics</title>
+  <style>
+    /* Inline critical CSS for better loading experience */
+    body { margin: 0; font-family: system-ui, -apple-system, sans-serif; }
+    #dashboard-root { min-height: 100vh; }
+    .loading {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      height: 100vh;
+      font-size: 18px;
+      color: #64748b;
+    }
+  </style>
+</head>
+<body>
+  <div id="dashboard-root">
+    <div class="loading">Loading TokNXR Dashboard...</div>
+  </div>
+  <script>
+    // Inline the dashboard script
+    ${fs.readFileSync(path.resolve(process.cwd(), 'src/dashboard.tsx'), 'utf8').replace(/export default function Dashboard/, 'function Dashboard').replace(/import React.*$/m, '').replace(/import { createRoot }.*$/m, '')}
+  </script>
+</body>
+</html>`;
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(html);
+      return;
+    }
+
+    proxyKeys.reload();
+    let key: ProxyKey | null = null;
+    let proxyKeyInAuthorization = false; // then Authorization is the proxy's, not the provider's
+    if (authAtStartup || proxyKeys.active().length > 0) {
+      const presented = readProxyKey(req);
+      proxyKeyInAuthorization = !readHeader(req, PROXY_KEY_HEADER);
+      key = presented ? proxyKeys.verify(presented) : null;
+      if (!key && !(presented && authToken && safeEqual(presented, authToken))) {
+        console.log(chalk.red(`[Proxy] Rejected request without a valid proxy key | requestId=${requestId}`));
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Missing or invalid proxy key', requestId }));
+        return;
+      }
+    }
+    const keyId = key?.id;
+    const { user, team } = resolveCaller(req, key);
+
     // Enhanced stats API for dashboard
     if (req.method === 'GET' && req.url === '/api/stats') {
-      const logFilePath = path.resolve(process.cwd(), 'interactions.log');
+      const logFilePath = path.resolve(process.cwd(), INTERACTION_LOG_FILE);
       const monthKey = currentMonthKey();
-      const sums = computeMonthlySpend(logFilePath, monthKey);
+      const sums = spendLedger.current().monthlyTotals();
 
       // Read recent interactions for the dashboard
       interface RecentInteraction {
@@ -117,25 +973,21 @@ export const startProxyServer = async () => {
       }
 
       let recentInteractions: RecentInteraction[] = [];
-      if (fs.existsSync(logFilePath)) {
-        try {
-          const fileContent = fs.readFileSync(logFilePath, 'utf8');
-          const lines = fileContent.trim().split('\n');
-          recentInteractions = lines.slice(-20) // Last 20 interactions
-            .map(line => JSON.parse(line))
-            .map((interaction: unknown) => ({
-              timestamp: (interaction as { timestamp: string }).timestamp,
-              provider: (interaction as { provider: string }).provider,
-              model: (interaction as { model: string }).model,
-              cost: (interaction as { costUSD: number }).costUSD || 0,
-              taskType: (interaction as { taskType?: string }).taskType,
-              qualityScore: (interaction as { codeQualityScore?: number }).codeQualityScore,
-              effectivenessScore: (interaction as { effectivenessScore?: number }).effectivenessScore
-            }))
-            .reverse(); // Most recent first
-        } catch (error) {
-          console.error('Error reading recent interactions:', error);
-        }
+      try {
+        recentInteractions = readRecentInteractions<unknown>(logFilePath, 20) // Last 20 interactions, across rotations
+          .filter(interaction => !isFailedInteraction(interaction as { outcome?: string }))
+          .map((interaction: unknown) => ({
+            timestamp: (interaction as { timestamp: string }).timestamp,
+            provider: (interaction as { provider: string }).provider,
+            model: (interaction as { model: string }).model,
+            cost: (interaction as { costUSD: number }).costUSD || 0,
+            taskType: (interaction as { taskType?: string }).taskType,
+            qualityScore: (interaction as { codeQualityScore?: number }).codeQualityScore,
+            effectivenessScore: (interaction as { effectivenessScore?: number }).effectivenessScore
+          }))
+          .reverse(); // Most recent first
+      } catch (error) {
+        console.error('Error reading recent interactions:', error);
       }
 
       // Calculate waste rate based on quality scores
@@ -169,252 +1021,460 @@ export const startProxyServer = async () => {
       return;
     }
 
-    // Enhanced React Dashboard
-    if (req.method === 'GET' && req.url === '/dashboard') {
-      const html = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>TokNXR Dashboard - AI Analytics</title>
-  <style>
-    /* Inline critical CSS for better loading experience */
-    body { margin: 0; font-family: system-ui, -apple-system, sans-serif; }
-    #dashboard-root { min-height: 100vh; }
-    .loading {
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      height: 100vh;
-      font-size: 18px;
-      color: #64748b;
-    }
-  </style>
-</head>
-<body>
-  <div id="dashboard-root">
-    <div class="loading">Loading TokNXR Dashboard...</div>
-  </div>
-  <script>
-    // Inline the dashboard script
-    ${fs.readFileSync(path.resolve(process.cwd(), 'src/dashboard.tsx'), 'utf8').replace(/export default function Dashboard/, 'function Dashboard').replace(/import React.*$/m, '').replace(/import { createRoot }.*$/m, '')}
-  </script>
-</body>
-</html>`;
-      res.writeHead(200, { 'Content-Type': 'text/html' });
-      res.end(html);
-      return;
-    }
-
-    const matchedProvider = providerConfig.providers.find((p: ProviderConfig['providers'][0]) => req.url?.startsWith(p.routePrefix));
+    const matchedProvider = matchProvider(providerConfig.providers, req.url || '');
 
-    if (req.method === 'POST' && matchedProvider) {
+    if (matchedProvider) {
       try {
         console.log(chalk.gray(`[Proxy] Matched provider: ${matchedProvider.name} | requestId=${requestId}`));
         const chunks: Buffer[] = [];
         for await (const chunk of req) {
           chunks.push(chunk);
         }
-        const requestBody = Buffer.concat(chunks).toString();
-        const requestData = JSON.parse(requestBody);
+        const requestBody = Buffer.concat(chunks);
+        const requestedUrl = upstreamUrl(matchedProvider, req.url || '');
+        // The client's wire format; a routed response is translated back into it
+        const clientAdapter = resolveProviderAdapter(matchedProvider);
+        // Client headers go to the provider it addressed; a proxy key sent as Authorization does not
+        const clientHeaders = forwardedHeaders(req.headers, passthrough, proxyKeyInAuthorization ? ['authorization'] : []);
+        const project = readHeader(req, PROJECT_HEADER);
+        const tags = readHeader(req, TAGS_HEADER)?.split(',').map(tag => tag.trim()).filter(Boolean);
+        const prePolicy = policyWatcher.current();
 
-        // --- Hard budget enforcement (pre-flight) ---
-        const prePolicy = loadPolicy(process.cwd());
-        if (prePolicy) {
-          const preLogPath = path.resolve(process.cwd(), 'interactions.log');
-          const preMonth = currentMonthKey();
-          const preSums = computeMonthlySpend(preLogPath, preMonth);
-          let overCap = false;
-          const reasons: string[] = [];
-          if (prePolicy.monthlyUSD && preSums.total > prePolicy.monthlyUSD) {
-            overCap = true; reasons.push(`total>${prePolicy.monthlyUSD}`);
+        // --- Embeddings, Images, Audio and Batches (relayed as sent, then measured) ---
+        const operation = detectOperation(clientAdapter.format, req.method, requestedUrl);
+        if (operation) {
+          const request = { body: requestBody, contentType: readHeader(req, 'content-type') };
+          const requestedModel = requestedOperationModel(operation, requestedUrl, request);
+          const logFailure = (status: number, error: string) => {
+            // Polling a batch is not a billable call; its failures are the client's business
+            if (operation === 'batch') return;
+            logFailedRequest({
+              requestId, provider: matchedProvider, model: requestedModel, status, error, operation,
+              project, keyId, user, team, tags, spendLedger, compressRotatedLogs: serverConfig.compressRotatedLogs,
+            });
+          };
+
+          // A batch being polled was paid for when it ran; only new work is checked
+          if (prePolicy && operation !== 'batch') {
+            if (prePolicy.blockUnpricedModels && requestedModel && !isModelPriced(requestedModel)) {
+              console.log(chalk.red(`[Proxy] Blocking request for unpriced model "${requestedModel}" | requestId=${requestId}`));
+              res.writeHead(403, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Model has no pricing', model: requestedModel, requestId }));
+              return;
+            }
+            const blocking = evaluateBudgets(budgetRules(prePolicy), spendLedger.current(), {
+              provider: matchedProvider.name, model: requestedModel, user, team, project, tags, operation,
+            }).filter(status => status.state === 'exceeded' && (status.rule.action || 'block') === 'block');
+            if (blocking.length) {
+              const reasons = blocking.map(formatBudgetStatus);
+              console.log(chalk.red(`[Proxy] Hard budget enforcement: blocking ${operation} request | reasons=${reasons.join(', ')} | requestId=${requestId}`));
+              res.writeHead(429, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Budget exceeded', reasons, requestId, budgets: blockedBudgets(blocking) }));
+              return;
+            }
           }
-          if (prePolicy.perProviderMonthlyUSD) {
-            const cap = prePolicy.perProviderMonthlyUSD[matchedProvider.name];
-            if (typeof cap === 'number') {
-              const spent = (preSums.byProvider[matchedProvider.name] || 0);
-              if (spent > cap) { overCap = true; reasons.push(`${matchedProvider.name}>${cap}`); }
+
+          console.log(chalk.gray(`[Proxy] Forwarding ${operation} request to ${redactQuery(requestedUrl)} | requestId=${requestId}`));
+          let relayed: RelayedResponse;
+          try {
+            relayed = await relayRequest(
+              req.method || 'POST',
+              requestedUrl,
+              requestBody,
+              upstreamHeaders(matchedProvider, clientHeaders),
+              res,
+              (failover.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+              true
+            );
+          } catch (error) {
+            const reason = describeUpstreamError(error);
+            const status = reason === 'timeout' ? 504 : 502;
+            console.error(chalk.red(`[Proxy] ${operation} request to ${matchedProvider.name} failed: ${reason} | requestId=${requestId}`));
+            logFailure(status, reason);
+            if (res.headersSent) {
+              res.end();
+            } else {
+              res.writeHead(status, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Upstream request failed', reason, requestId }));
             }
+            return;
           }
-          if (overCap) {
-            console.log(chalk.red(`[Proxy] Hard budget enforcement: blocking request | reasons=${reasons.join(', ')} | requestId=${requestId}`));
-            res.writeHead(429, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Budget exceeded', reasons, requestId }));
+          if (relayed.status >= 400) {
+            console.log(chalk.red(`[Proxy] Upstream error ${relayed.status} from ${matchedProvider.name} | requestId=${requestId}`));
+            logFailure(relayed.status, relayed.body ? errorExcerpt(relayed.body) : `HTTP ${relayed.status}`);
             return;
           }
-        }
 
-        // --- Dynamic Request Forwarding ---
-        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-        if (matchedProvider.apiKeyEnvVar) {
-          const apiKey = process.env[matchedProvider.apiKeyEnvVar];
-          if (!apiKey) {
-            throw new Error(`${matchedProvider.apiKeyEnvVar} environment variable not set.`);
+          let responseData: any;
+          try {
+            responseData = relayed.body && JSON.parse(relayed.body.toString('utf8'));
+          } catch {
+            // A plain-text transcript or the like; usage comes from the request alone
           }
-          const authHeader = matchedProvider.authHeader || 'Authorization';
-          const authScheme = matchedProvider.authScheme ? `${matchedProvider.authScheme} ` : '';
-          headers[authHeader as string] = `${authScheme}${apiKey}`;
+          const usage = measureOperation(operation, requestedUrl, request, responseData);
+          if (!usage) {
+            console.log(chalk.gray(`[Proxy] Passed through (${relayed.status}); nothing to log yet | requestId=${requestId}`));
+            return;
+          }
+          if (usage.batchId) {
+            if (!batchLog.claim(matchedProvider.name, usage.batchId)) {
+              console.log(chalk.gray(`[Proxy] Batch ${usage.batchId} already logged | requestId=${requestId}`));
+              return;
+            }
+            batchLog.save();
+          }
+          trackOperation({
+            requestId,
+            matchedProvider,
+            operation,
+            usage,
+            status: relayed.status,
+            project,
+            keyId,
+            user,
+            team,
+            tags,
+            spendLedger,
+            policyWatcher,
+            alertLog,
+            compressRotatedLogs: serverConfig.compressRotatedLogs,
+          });
+          return;
         }
+        // --------------------------
 
-        const targetUrl = matchedProvider.targetUrl.replace(/\/$/, '') + (req.url || '').substring(matchedProvider.routePrefix.length);
-        console.log(chalk.gray(`[Proxy] Forwarding request to ${targetUrl} | requestId=${requestId}`));
-
-        const apiResponse = await axios.post(targetUrl, requestData, {
-          headers,
-          timeout: 20000,
-          validateStatus: () => true,
-        });
-        if (apiResponse.status >= 500) {
-          // simple retry with exponential backoff
-          const backoffs = [300, 600, 1200];
-          for (const ms of backoffs) {
-            await new Promise(r => setTimeout(r, ms));
-            const retry = await axios.post(targetUrl, requestData, { headers, timeout: 20000, validateStatus: () => true });
-            if (retry.status < 500) {
-              apiResponse.status = retry.status;
-              (apiResponse as { data: unknown }).data = retry.data;
-              break;
-            }
+        // --- Passthrough (anything but a billable JSON call) ---
+        let clientRequest: any;
+        if (isBillableRequest(req.method, requestedUrl, matchedProvider, clientAdapter)) {
+          try {
+            clientRequest = JSON.parse(requestBody.toString());
+          } catch {
+            // Not JSON; upstream can say what is wrong with it
           }
         }
-        if (apiResponse.status >= 400) {
-          throw new Error(`Upstream error ${apiResponse.status}`);
+        if (!clientRequest || typeof clientRequest !== 'object') {
+          console.log(chalk.gray(`[Proxy] Passing ${req.method} through to ${redactQuery(requestedUrl)} | requestId=${requestId}`));
+          try {
+            const { status } = await relayRequest(
+              req.method || 'GET',
+              requestedUrl,
+              requestBody,
+              upstreamHeaders(matchedProvider, clientHeaders),
+              res,
+              (failover.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000
+            );
+            console.log(chalk.gray(`[Proxy] Passed through (${status}) | requestId=${requestId}`));
+          } catch (error) {
+            const reason = describeUpstreamError(error);
+            console.error(chalk.red(`[Proxy] Passthrough to ${matchedProvider.name} failed: ${reason} | requestId=${requestId}`));
+            if (res.headersSent) {
+              res.end();
+            } else {
+              res.writeHead(reason === 'timeout' ? 504 : 502, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Upstream request failed', reason, requestId }));
+            }
+          }
+          return;
         }
-        const responseData = apiResponse.data;
-        // --------------------------------
+        // --------------------------
 
-        // --- Extract User Prompt and AI Response for Analysis ---
-        console.log(chalk.cyan(`[Proxy] Extracting request/response content for analysis... | requestId=${requestId}`));
+        let targetUrl = requestedUrl;
+        let adapter = clientAdapter;
+        let provider = matchedProvider;
+        let requestData = clientRequest;
 
-        // Extract user prompt from request (Gemini format)
-        let userPrompt = '';
-        if (requestData.contents && requestData.contents[0]?.parts?.[0]?.text) {
-          userPrompt = requestData.contents[0].parts[0].text;
+        // --- Routing Rules ---
+        let routing: RoutingDecision | undefined;
+        let translated = false;
+        if (routingRules.length) {
+          const route = routeRequest(routingRules, providerConfig.providers, {
+            provider: matchedProvider,
+            adapter: clientAdapter,
+            targetUrl,
+            requestData: clientRequest,
+            headers: req.headers,
+            streaming: isStreamingRequest(clientRequest, targetUrl, clientAdapter.format),
+            budgetUsedPercent: () => {
+              if (!prePolicy) return 0;
+              const model = clientAdapter.normalizeRequest(clientRequest, targetUrl).model;
+              const statuses = evaluateBudgets(budgetRules(prePolicy), spendLedger.current(), {
+                provider: matchedProvider.name, model, user, team, project, tags, operation: 'chat',
+              });
+              return Math.max(0, ...statuses.map(status => (status.limitUSD > 0 ? (status.spentUSD / status.limitUSD) * 100 : 0)));
+            },
+          });
+          routing = route.decision;
+          if ('provider' in route) {
+            ({ provider, adapter, targetUrl, requestData, translated } = route);
+            console.log(chalk.yellow(`[Proxy] Routed to ${provider.name}${translated ? ` (translated from ${clientAdapter.format})` : ''} by ${routing.rule}: ${routing.reason} | requestId=${requestId}`));
+          }
         }
+        // --------------------------
 
-        // Extract AI response text (Gemini format)
-        let aiResponseText = '';
-        if (responseData.candidates && responseData.candidates[0]?.content?.parts?.[0]?.text) {
-          aiResponseText = responseData.candidates[0].content.parts[0].text;
+        // --- Hard budget enforcement (pre-flight) ---
+        if (prePolicy?.blockUnpricedModels) {
+          const requestedModel = adapter.normalizeRequest(requestData, targetUrl).model;
+          if (requestedModel && !isModelPriced(requestedModel)) {
+            console.log(chalk.red(`[Proxy] Blocking request for unpriced model "${requestedModel}" | requestId=${requestId}`));
+            res.writeHead(403, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Model has no pricing', model: requestedModel, requestId }));
+            return;
+          }
         }
+        if (prePolicy) {
+          const rules = budgetRules(prePolicy);
+          const spending = spendLedger.current();
+          const preflight = prePolicy.preflight || {};
+          const requestedModel = adapter.normalizeRequest(requestData, targetUrl).model;
+          const checkBudgets = (projection?: CostProjection) =>
+            evaluateBudgets(
+              rules,
+              spending,
+              { provider: provider.name, model: projection?.model ?? requestedModel, user, team, project, tags, operation: 'chat' },
+              projection?.worstCaseUSD ?? 0
+            );
+          const isBlocking = (status: BudgetStatus) => status.state === 'exceeded' && (status.rule.action || 'block') === 'block';
 
-        // Check if this appears to be a coding request
-        const isCodeRequest = /code|function|script|program|algorithm|implement/i.test(userPrompt) ||
-                             /```.*\n[\s\S]*```/.test(aiResponseText);
-
-        // --- Dynamic Data Extraction ---
-        console.log(chalk.cyan(`[Proxy] Extracting interaction data... | requestId=${requestId}`));
-        const mapping = matchedProvider.tokenMapping;
-        const promptTokens = getValueFromPath(responseData, mapping.prompt);
-        const completionTokens = getValueFromPath(responseData, mapping.completion);
-        const totalTokens = getValueFromPath(responseData, mapping.total) || promptTokens + completionTokens;
-
-        const interactionData: AIInteraction = {
-          timestamp: new Date().toISOString(),
-          provider: matchedProvider.name,
-          model: responseData.model || 'gemini-2.5-flash',
-          promptTokens: promptTokens,
-          completionTokens: completionTokens,
-          totalTokens: totalTokens,
-          costUSD: estimateCostUSD(responseData.model || 'gemini-2.5-flash', promptTokens, completionTokens),
-          taskType: isCodeRequest ? 'coding' : 'chat',
-        };
-
-        // --- Enhanced AI Analysis (for all requests) ---
-        if (userPrompt && aiResponseText) {
-          console.log(chalk.cyan(`[Proxy] Running AI analysis pipeline... | requestId=${requestId}`));
-
-          // Store original texts for analysis
-          interactionData.userPrompt = userPrompt;
-          interactionData.aiResponse = aiResponseText;
-
-          // Run hallucination detection on all interactions
-          const hallucinationDetection = hallucinationDetector.detectHallucination(
-            userPrompt,
-            aiResponseText
-          );
-
-          // Add hallucination data to interaction (will be serialized to JSON)
-          interactionData.hallucinationDetection = hallucinationDetection;
-
-          console.log(chalk.cyan(`[Proxy] Hallucination detection complete - Confidence: ${hallucinationDetection.confidence}%, Likely: ${hallucinationDetection.isLikelyHallucination} | requestId=${requestId}`));
+          // Budget on what the request could cost, not only on what has been spent so far
+          const projectionOptions = { defaultMaxOutputTokens: preflight.defaultMaxOutputTokens };
+          let projection =
+            rules.length > 0 && preflight.projectCost !== false
+              ? projectRequestCost(adapter, requestData, targetUrl, projectionOptions)
+              : undefined;
+          let statuses = checkBudgets(projection);
 
-          // Code Quality Analysis (if this is a coding request)
-          if (isCodeRequest) {
-            console.log(chalk.cyan(`[Proxy] Running code quality analysis... | requestId=${requestId}`));
+          const cheaperModel = projection && preflight.downgrade?.[projection.model];
+          if (projection && cheaperModel && adapter.replaceModel && statuses.some(isBlocking)) {
+            const downgraded = projectRequestCost(adapter, requestData, targetUrl, { ...projectionOptions, model: cheaperModel });
+            const downgradedStatuses = checkBudgets(downgraded);
+            if (!downgradedStatuses.some(isBlocking)) {
+              console.log(chalk.yellow(`[Proxy] Downgrading ${projection.model} -> ${cheaperModel} to stay within budget | requestId=${requestId}`));
+              targetUrl = adapter.replaceModel(requestData, targetUrl, cheaperModel);
+              res.setHeader(DOWNGRADED_FROM_HEADER, projection.model);
+              projection = downgraded;
+              statuses = downgradedStatuses;
+            }
+          }
 
-            // Extract code from response
-            const extractedCodeResult = extractCodeFromResponse(aiResponseText);
-            if (extractedCodeResult) {
-              interactionData.extractedCode = extractedCodeResult.code;
+          const blocking = statuses.filter(isBlocking);
+          if (blocking.length) {
+            const reasons = blocking.map(formatBudgetStatus);
+            console.log(chalk.red(`[Proxy] Hard budget enforcement: blocking request | reasons=${reasons.join(', ')} | requestId=${requestId}`));
+            res.writeHead(429, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              error: 'Budget exceeded',
+              reasons,
+              requestId,
+              ...(projection
+                ? {
+                    projection: {
+                      model: projection.model,
+                      estimatedPromptTokens: projection.estimatedPromptTokens,
+                      maxOutputTokens: projection.maxOutputTokens,
+                      worstCaseUSD: projection.worstCaseUSD,
+                    },
+                  }
+                : {}),
+              budgets: blockedBudgets(blocking),
+            }));
+            return;
+          }
+          const warnings = statuses.filter(status => status.state !== 'ok').map(formatBudgetStatus);
+          if (warnings.length) {
+            // Soft limits and warn-only caps: let the request through but tell the client
+            res.setHeader(BUDGET_WARNING_HEADER, warnings.join('; '));
+          }
+        }
 
-              // Analyze code quality
-              const qualityMetrics = analyzeCodeQuality(extractedCodeResult.code, extractedCodeResult.language);
-              interactionData.codeQualityMetrics = qualityMetrics;
+        // --- Dynamic Request Forwarding (with retries and failover) ---
+        const conversationId = readHeader(req, CONVERSATION_ID_HEADER);
+        const streaming = isStreamingRequest(requestData, targetUrl, adapter.format);
+        const candidates = [{ provider, adapter, targetUrl, requestData, translated }];
+        if (provider.fallback?.length) {
+          // Fallbacks are built from what the client sent, translated where the format differs
+          const clientInput = { provider: matchedProvider, adapter: clientAdapter, targetUrl: requestedUrl, requestData: clientRequest, streaming };
+          const clientConversation = clientAdapter.normalizeRequest(clientRequest, requestedUrl);
+          for (const fallback of provider.fallback.map(fallbackTarget)) {
+            const fallbackProvider = providerConfig.providers.find(candidate => candidate.name === fallback.provider);
+            const target = fallbackProvider && retargetRequest(clientInput, clientConversation, fallbackProvider, fallback.model);
+            if (target) candidates.push(target);
+            else console.log(chalk.gray(`[Proxy] Skipping fallback ${fallback.provider}: cannot send this request there | requestId=${requestId}`));
+          }
+        }
 
-              // Calculate overall quality score (0-100)
-              let qualityScore = 50; // Base
-              if (qualityMetrics.syntaxValid) qualityScore += 20;
-              qualityScore += Math.round(qualityMetrics.estimatedReadability * 2); // 0-20
-              if (qualityMetrics.hasFunctions || qualityMetrics.hasClasses) qualityScore += 15;
-              if (qualityMetrics.potentialIssues.length === 0) qualityScore += 10;
-              if (qualityMetrics.linesOfCode > 20) qualityScore += 5; // Substantial implementation
-              interactionData.codeQualityScore = Math.min(100, qualityScore);
+        // Another provider of the same format gets the client's headers without its credentials
+        const sharedHeaders = forwardedHeaders(req.headers, passthrough, [
+          ...CREDENTIAL_HEADERS,
+          ...(matchedProvider.authHeader ? [matchedProvider.authHeader] : []),
+        ]);
+        const retries = failover.retries ?? DEFAULT_RETRIES;
+        const maxRetryAfterMs = (failover.maxRetryAfterSeconds ?? DEFAULT_MAX_RETRY_AFTER_SECONDS) * 1000;
+        const attempts: UpstreamAttempt[] = [];
+        let apiResponse: AxiosResponse | undefined;
+        let lastErrorResponse: UpstreamErrorResponse | undefined; // relayed if no provider succeeds
+        // Providers still cooling down after a long Retry-After are skipped, unless all of them are
+        const available = candidates.filter(candidate => !cooldowns.remaining(candidate.provider.name));
+        for (const candidate of available.length ? available : candidates) {
+          ({ provider, adapter, targetUrl, requestData, translated } = candidate);
+          const model = adapter.normalizeRequest(requestData, targetUrl).model;
+          let headers: Record<string, string>;
+          try {
+            const forwarded = provider === matchedProvider ? clientHeaders : adapter.format === clientAdapter.format ? sharedHeaders : {};
+            headers = upstreamHeaders(provider, { ...forwarded, 'content-type': 'application/json' });
+          } catch (error) {
+            attempts.push({ provider: provider.name, model, error: describeUpstreamError(error), durationMs: 0 });
+            continue;
+          }
+          if (streaming) adapter.prepareStreamingRequest?.(requestData);
 
-              // Score effectiveness (how well the AI understood and fulfilled the request)
-              const effectiveness = scoreEffectiveness(userPrompt, aiResponseText, extractedCodeResult.code);
-              interactionData.effectivenessScore = effectiveness.overallEffectiveness;
+          for (let attempt = 0; attempt <= retries && !apiResponse; attempt++) {
+            console.log(chalk.gray(`[Proxy] Forwarding ${streaming ? 'streamed ' : ''}request to ${redactQuery(targetUrl)}${attempt ? ` (retry ${attempt})` : ''} | requestId=${requestId}`));
+            const startedAt = Date.now();
+            let failure: UpstreamAttempt;
+            try {
+              const response = await axios.post(targetUrl, requestData, {
+                headers,
+                timeout: (failover.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+                validateStatus: () => true,
+                // Raw bytes, so an error body can be relayed exactly as the provider sent it
+                responseType: streaming ? 'stream' : 'arraybuffer',
+              });
+              if (!isRetriableStatus(response.status)) {
+                apiResponse = response;
+                break;
+              }
+              lastErrorResponse = await readErrorResponse(response, streaming);
+              const retryAfterMs = parseRetryAfter(response.headers['retry-after']);
+              failure = {
+                provider: provider.name,
+                model,
+                status: response.status,
+                ...(retryAfterMs !== undefined ? { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) } : {}),
+                durationMs: Date.now() - startedAt,
+              };
+            } catch (error) {
+              failure = { provider: provider.name, model, error: describeUpstreamError(error), durationMs: Date.now() - startedAt };
+            }
+            attempts.push(failure);
+            console.log(chalk.yellow(`[Proxy] ${provider.name} failed (${failure.status ?? failure.error}) | requestId=${requestId}`));
 
-              console.log(chalk.green(`[Proxy] Code analysis complete - Quality: ${qualityScore}/100, Effectiveness: ${effectiveness.overallEffectiveness}/100 | requestId=${requestId}`));
+            const waitMs = failure.retryAfterSeconds !== undefined ? failure.retryAfterSeconds * 1000 : backoffMs(attempt);
+            if (failure.retryAfterSeconds !== undefined && waitMs > maxRetryAfterMs) {
+              // Too long to hold the client; let the next provider take it
+              cooldowns.set(provider.name, waitMs);
+              break;
             }
+            if (attempt < retries) await new Promise(r => setTimeout(r, waitMs));
           }
+          if (apiResponse) break;
         }
-        // ---------------------------
-
-        // --- Local File Logging ---
-        console.log(chalk.cyan(`[Proxy] Logging interaction to local file... | requestId=${requestId}`));
-        const logFilePath = path.resolve(process.cwd(), 'interactions.log');
-        const logLine = JSON.stringify({ requestId, ...interactionData });
-        try {
-          const stats = fs.existsSync(logFilePath) ? fs.statSync(logFilePath) : null;
-          if (stats && stats.size > 5 * 1024 * 1024) {
-            const rotated = `${logFilePath.replace(/\.log$/, '')}.${Date.now()}.log`;
-            fs.renameSync(logFilePath, rotated);
-            console.log(chalk.gray(`[Proxy] Rotated log to ${rotated}`));
-          }
-        } catch {}
-        fs.appendFileSync(logFilePath, logLine + '\n');
-        console.log(chalk.green(`[Proxy] Interaction successfully logged to ${logFilePath} | requestId=${requestId}`));
-
-        // --- Budgets and Alerts ---
-        const policy = loadPolicy(process.cwd());
-        if (policy) {
-          const monthKey = currentMonthKey();
-          const sums = computeMonthlySpend(logFilePath, monthKey);
-          const breached: string[] = [];
-          if (policy.monthlyUSD && sums.total > policy.monthlyUSD) {
-            breached.push(`total>${policy.monthlyUSD}`);
-          }
-          if (policy.perProviderMonthlyUSD) {
-            for (const p in policy.perProviderMonthlyUSD) {
-              const cap = policy.perProviderMonthlyUSD[p];
-              const spent = sums.byProvider[p] || 0;
-              if (spent > cap) breached.push(`${p}>${cap}`);
-            }
-          }
-          if (breached.length && policy.webhookUrl) {
-            await sendBudgetAlert(policy.webhookUrl, {
-              requestId,
-              monthKey,
-              breaches: breached,
-              totals: sums,
+
+        const failure = {
+          requestId,
+          provider,
+          model: adapter.normalizeRequest(requestData, targetUrl).model,
+          streamed: streaming,
+          conversationId,
+          project,
+          keyId,
+          user,
+          team,
+          tags,
+          routing,
+          attempts,
+          spendLedger,
+          compressRotatedLogs: serverConfig.compressRotatedLogs,
+        };
+        if (!apiResponse && !lastErrorResponse) {
+          // No provider answered at all; a gateway timeout when the last one ran out of time
+          const status = attempts[attempts.length - 1]?.error === 'timeout' ? 504 : 502;
+          console.log(chalk.red(`[Proxy] All upstream providers failed (${attempts.length} attempts) | requestId=${requestId}`));
+          logFailedRequest({ ...failure, status, error: 'All upstream providers failed' });
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'All upstream providers failed', attempts, requestId }));
+          return;
+        }
+        if (!apiResponse || apiResponse.status >= 400) {
+          // Relay the provider's own error (validation messages, rate-limit headers) as it was sent
+          const upstreamError = apiResponse ? await readErrorResponse(apiResponse, streaming) : lastErrorResponse!;
+          console.log(chalk.red(`[Proxy] Upstream error ${upstreamError.status} from ${provider.name} | requestId=${requestId}`));
+          logFailedRequest({ ...failure, status: upstreamError.status, error: errorExcerpt(upstreamError.body) });
+          res.writeHead(upstreamError.status, upstreamError.headers);
+          res.end(upstreamError.body);
+          return;
+        }
+        if (attempts.length) res.setHeader(SERVED_BY_HEADER, provider.name);
+        // --------------------------------
+
+        // --- Streamed Passthrough ---
+        if (streaming) {
+          const upstream = apiResponse.data;
+          const collector = new StreamCollector();
+          res.writeHead(apiResponse.status, toClientHeaders(apiResponse.headers));
+
+          await new Promise<void>((resolve, reject) => {
+            upstream.on('data', (chunk: Buffer) => {
+              collector.push(chunk);
+              res.write(chunk);
             });
-            console.log(chalk.red(`[Proxy] Budget breach detected (${breached.join(', ')}) | requestId=${requestId}`));
-          }
+            upstream.on('end', resolve);
+            upstream.on('error', reject);
+            res.on('close', () => {
+              // Client went away mid-stream; stop pulling from upstream but keep what we saw
+              if (!res.writableFinished) upstream.destroy();
+              resolve();
+            });
+          });
+          res.end();
+
+          collector.end();
+          await trackInteraction({
+            requestId,
+            matchedProvider: provider,
+            adapter,
+            targetUrl,
+            requestData,
+            responseData: adapter.assembleStream(collector.events),
+            status: apiResponse.status,
+            streamed: true,
+            conversationId,
+            project,
+            keyId,
+            user,
+            team,
+            tags,
+            routing,
+            attempts,
+            spendLedger,
+            policyWatcher,
+            alertLog,
+            compressRotatedLogs: serverConfig.compressRotatedLogs,
+          });
+          console.log(chalk.magenta(`[Proxy] Stream successfully proxied and data tracked. | requestId=${requestId}`));
+          return;
         }
         // --------------------------
 
-        res.writeHead(apiResponse.status, apiResponse.headers as Record<string, string>);
+        const responseData = JSON.parse(Buffer.from(apiResponse.data).toString('utf8'));
+        await trackInteraction({ requestId, matchedProvider: provider, adapter, targetUrl, requestData, responseData, status: apiResponse.status, conversationId, project, keyId, user, team, tags, routing, attempts, spendLedger, policyWatcher, alertLog, compressRotatedLogs: serverConfig.compressRotatedLogs });
+
+        if (translated && clientAdapter.buildResponse) {
+          // Answer in the format the client sent, not the one the routed provider speaks
+          const normalized = adapter.normalizeResponse(responseData);
+          const mapping = provider.tokenMapping;
+          res.writeHead(apiResponse.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(clientAdapter.buildResponse({
+            text: normalized.text,
+            model: normalized.model || adapter.normalizeRequest(requestData, targetUrl).model || 'unknown',
+            promptTokens: getValueFromPath(responseData, mapping.prompt),
+            completionTokens: getValueFromPath(responseData, mapping.completion),
+            stopReason: normalized.stopReason,
+          })));
+          console.log(chalk.magenta(`[Proxy] Request successfully proxied and data tracked. | requestId=${requestId}`));
+          return;
+        }
+
+        res.writeHead(apiResponse.status, toClientHeaders(apiResponse.headers));
         res.end(JSON.stringify(responseData));
 
         console.log(chalk.magenta(`[Proxy] Request successfully proxied and data tracked. | requestId=${requestId}`));
@@ -422,6 +1482,11 @@ export const startProxyServer = async () => {
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red(`[Proxy] Error: ${errorMessage} | requestId=${requestId}`));
+        if (res.headersSent) {
+          // A stream was already under way; all we can do is close it
+          res.end();
+          return;
+        }
         res.writeHead(500, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Failed to proxy request', requestId }));
       }
@@ -429,10 +1494,21 @@ export const startProxyServer = async () => {
       res.writeHead(404, { 'Content-Type': 'text/plain' });
       res.end('Not Found. No matching provider route in toknxr.config.json.');
     }
-  });
+  };
 
-  server.listen(PORT, () => {
-    console.log(chalk.yellow(`[Proxy] Server listening on http://localhost:${PORT}`));
+  const server = tlsOptions ? https.createServer(tlsOptions, handleRequest) : http.createServer(handleRequest);
+  server.on('error', (error: NodeJS.ErrnoException) => {
+    const reason = error.code === 'EADDRINUSE' ? `port ${port} is already in use` : error.message;
+    console.error(chalk.red(`[Proxy] Could not listen on ${host}:${port}: ${reason}`));
+    process.exit(1);
+  });
+  server.listen(port, host, () => {
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    const displayHost = host.includes(':') ? `[${host}]` : host;
+    console.log(chalk.yellow(`[Proxy] Server listening on ${tlsOptions ? 'https' : 'http'}://${displayHost}:${boundPort}`));
+    if (authAtStartup) console.log(chalk.yellow(`[Proxy] Clients must send a proxy key in ${PROXY_KEY_HEADER} or Authorization: Bearer`));
     console.log(chalk.yellow('Loaded providers:', providerConfig.providers.map((p: ProviderConfig['providers'][0]) => p.name).join(', ')));
   });
+  return server;
 };
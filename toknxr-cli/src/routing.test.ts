@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyTask, retargetRequest, routeRequest, validateRoutingRules, type RoutingRule } from './routing.js';
+import { anthropicAdapter, geminiAdapter, openAIAdapter } from './provider-adapters.js';
+
+const openai = { name: 'OpenAI', targetUrl: 'https://api.openai.com/v1/chat/completions', format: 'openai' };
+const openaiMini = { name: 'OpenAI-mini', targetUrl: 'https://proxy.example/v1/chat/completions', format: 'openai' };
+const anthropic = { name: 'Anthropic', targetUrl: 'https://api.anthropic.com/v1/messages', format: 'anthropic' };
+const gemini = {
+  name: 'Gemini',
+  targetUrl: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent',
+  format: 'gemini',
+};
+const providers = [openai, openaiMini, anthropic, gemini];
+
+const chatRequest = (content: string, extra: object = {}) => ({
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content }],
+  max_tokens: 300,
+  ...extra,
+});
+
+const input = (requestData: object, headers: Record<string, string> = {}, streaming = false) => ({
+  provider: openai,
+  adapter: openAIAdapter,
+  targetUrl: openai.targetUrl,
+  requestData,
+  headers,
+  streaming,
+  budgetUsedPercent: () => 85,
+});
+
+test('classifyTask looks at the prompt, and at fenced code in the response', () => {
+  assert.equal(classifyTask('Implement a parser'), 'coding');
+  assert.equal(classifyTask('How are you?'), 'chat');
+  assert.equal(classifyTask('How are you?', '```ts\nconst x = 1;\n```'), 'coding');
+});
+
+test('validateRoutingRules reports unknown providers and rules that change nothing', () => {
+  assert.deepEqual(
+    validateRoutingRules(
+      [{ name: 'cheap', provider: 'Mistral' }, { from: ['Nope'], model: 'gpt-4o-mini' }, {}],
+      providers
+    ),
+    ['cheap: unknown provider "Mistral"', 'rule 2: unknown provider "Nope" in from', 'rule 3: needs a provider or a model']
+  );
+});
+
+test('routeRequest applies the first rule whose conditions all hold', () => {
+  const rules: RoutingRule[] = [
+    { name: 'coding', when: { taskType: 'coding', header: { 'X-Team': 'ml' } }, provider: 'Anthropic', model: 'claude-3-5-sonnet' },
+    { name: 'budget', when: { budgetUsedPercent: 80 }, model: 'gpt-4o-mini' },
+  ];
+
+  const budget = routeRequest(rules, providers, input(chatRequest('Write a function')));
+  assert.ok('provider' in budget);
+  assert.equal(budget.decision.rule, 'budget');
+  assert.equal(budget.decision.reason, '85% of budget used');
+  assert.equal(budget.requestData.model, 'gpt-4o-mini');
+  assert.equal(budget.translated, false);
+
+  const coding = routeRequest(rules, providers, input(chatRequest('Write a function'), { 'x-team': 'ml' }));
+  assert.ok('provider' in coding);
+  assert.equal(coding.provider, anthropic);
+  assert.equal(coding.decision.translatedFrom, 'openai');
+  assert.deepEqual(coding.requestData, {
+    model: 'claude-3-5-sonnet',
+    messages: [{ role: 'user', content: 'Write a function' }],
+    max_tokens: 300,
+  });
+});
+
+test('routeRequest leaves the request alone when no rule matches or applies', () => {
+  const rules: RoutingRule[] = [
+    { from: ['Anthropic'], model: 'claude-3-haiku' },
+    { when: { minPromptTokens: 1000 }, model: 'gpt-4o-mini' },
+    { when: { model: 'gpt-4o' }, provider: 'Anthropic' }, // Anthropic needs a model to be named
+  ];
+  const result = routeRequest(rules, providers, input(chatRequest('hi')));
+  assert.deepEqual(result, { decision: { reason: 'no rule matched', requestedProvider: 'OpenAI', requestedModel: 'gpt-4o' } });
+});
+
+test('retargetRequest copies the body for the same format and rebases the URL', () => {
+  const request = chatRequest('hi');
+  const conversation = openAIAdapter.normalizeRequest(request, openai.targetUrl);
+  const result = retargetRequest(input(request), conversation, openaiMini, 'gpt-4o-mini');
+  assert.ok(result);
+  assert.equal(result.targetUrl, openaiMini.targetUrl);
+  assert.equal(result.requestData.model, 'gpt-4o-mini');
+  assert.equal(request.model, 'gpt-4o', 'the original request is not changed');
+});
+
+test('retargetRequest translates to another format only when it can', () => {
+  const request = chatRequest('hi');
+  const conversation = openAIAdapter.normalizeRequest(request, openai.targetUrl);
+
+  const toGemini = retargetRequest(input(request), conversation, gemini);
+  assert.ok(toGemini);
+  assert.equal(toGemini.adapter, geminiAdapter);
+  assert.equal(toGemini.targetUrl, gemini.targetUrl);
+  assert.deepEqual(toGemini.requestData.generationConfig, { maxOutputTokens: 300 });
+
+  assert.equal(retargetRequest(input(request, {}, true), conversation, gemini), null, 'streamed requests stay in their format');
+  const withTools = chatRequest('hi', { tools: [{ type: 'function', function: { name: 'lookup' } }], temperature: 0 });
+  assert.equal(retargetRequest(input(withTools), conversation, gemini), null, 'tools and sampling settings would be dropped');
+  assert.equal(retargetRequest(input(withTools), conversation, openaiMini)?.requestData.tools.length, 1, 'the same format keeps them');
+  assert.equal(retargetRequest(input(request), conversation, anthropic), null, 'the target has no model to use');
+  assert.equal(retargetRequest(input(request), conversation, anthropic, 'claude-3-haiku')?.adapter, anthropicAdapter);
+});
@@ -0,0 +1,220 @@
+import type { IncomingHttpHeaders } from 'http';
+import { estimateConversationTokens } from './cost-projection.js';
+import { rebaseUrl } from './passthrough.js';
+import { NormalizedConversation, ProviderAdapter, ProviderFormat, resolveProviderAdapter } from './provider-adapters.js';
+
+/**
+ * Routing rules (`routing.rules` in toknxr.config.json).
+ *
+ * Rules are tried in order and the first whose conditions all hold decides which
+ * configured provider (and optionally which model) serves the request instead of
+ * the one its route prefix points at. A request routed to a provider with another
+ * wire format is translated there and the response translated back; streamed
+ * requests, and requests with anything but text turns (tools, sampling settings,
+ * response formats), are only routed between providers of the same format.
+ */
+
+export type TaskType = 'coding' | 'chat';
+
+export interface RouteConditions {
+  taskType?: TaskType;
+  minPromptTokens?: number; // estimated from the request text
+  maxPromptTokens?: number;
+  budgetUsedPercent?: number; // at least this share of a budget covering the request is spent
+  header?: Record<string, string>; // header name -> value, or '*' for any value
+  model?: string; // the model the client asked for
+}
+
+export interface RoutingRule {
+  name?: string;
+  from?: string[]; // names of the providers whose traffic the rule applies to (default: all)
+  when?: RouteConditions;
+  provider?: string; // provider to send the request to (default: the one it was addressed to)
+  model?: string; // model to use there (default: the requested one)
+}
+
+export interface RoutingConfig {
+  rules?: RoutingRule[];
+}
+
+/**
+ * How a request was routed, as recorded on its interactions.log line
+ */
+export interface RoutingDecision {
+  rule?: string; // absent when no rule matched
+  reason: string;
+  requestedProvider: string;
+  requestedModel?: string;
+  translatedFrom?: ProviderFormat; // the client's wire format, when it differs from the provider's
+}
+
+interface RoutableProvider {
+  name: string;
+  targetUrl: string;
+  baseUrl?: string;
+  format?: ProviderFormat;
+}
+
+export interface RouteInput<P extends RoutableProvider> {
+  provider: P;
+  adapter: ProviderAdapter;
+  targetUrl: string;
+  requestData: any;
+  headers: IncomingHttpHeaders;
+  streaming: boolean;
+  budgetUsedPercent: () => number; // highest share of a matching budget spent so far
+}
+
+export interface RouteResult<P extends RoutableProvider> {
+  provider: P;
+  adapter: ProviderAdapter;
+  targetUrl: string;
+  requestData: any;
+  translated: boolean; // the response has to be converted back to the client's format
+  decision: RoutingDecision;
+}
+
+const CODING_PATTERN = /code|function|script|program|algorithm|implement/i;
+
+/**
+ * The proxy's coding/chat split. Before a request is sent only the prompt is known;
+ * once the response is in, a fenced code block in it also counts.
+ */
+export function classifyTask(userPrompt: string, responseText = ''): TaskType {
+  return CODING_PATTERN.test(userPrompt) || /```.*\n[\s\S]*```/.test(responseText) ? 'coding' : 'chat';
+}
+
+export const ruleName = (rule: RoutingRule, index: number): string => rule.name || `rule ${index + 1}`;
+
+/**
+ * Problems with the rules that would make them fail at request time, e.g. an unknown provider
+ */
+export function validateRoutingRules(rules: RoutingRule[], providers: RoutableProvider[]): string[] {
+  const names = new Set(providers.map(provider => provider.name));
+  const problems: string[] = [];
+  rules.forEach((rule, index) => {
+    if (rule.provider && !names.has(rule.provider)) {
+      problems.push(`${ruleName(rule, index)}: unknown provider "${rule.provider}"`);
+    }
+    (rule.from || [])
+      .filter(name => !names.has(name))
+      .forEach(name => problems.push(`${ruleName(rule, index)}: unknown provider "${name}" in from`));
+    if (!rule.provider && !rule.model) problems.push(`${ruleName(rule, index)}: needs a provider or a model`);
+  });
+  return problems;
+}
+
+/**
+ * Which conditions of a rule hold, as a readable reason; null when one does not
+ */
+function matchConditions(
+  when: RouteConditions,
+  facts: { taskType: TaskType; promptTokens: number; model?: string; headers: IncomingHttpHeaders; budgetUsedPercent: () => number }
+): string | null {
+  const reasons: string[] = [];
+  if (when.taskType) {
+    if (facts.taskType !== when.taskType) return null;
+    reasons.push(`task ${facts.taskType}`);
+  }
+  if (when.minPromptTokens !== undefined || when.maxPromptTokens !== undefined) {
+    if (when.minPromptTokens !== undefined && facts.promptTokens < when.minPromptTokens) return null;
+    if (when.maxPromptTokens !== undefined && facts.promptTokens > when.maxPromptTokens) return null;
+    reasons.push(`~${facts.promptTokens} prompt tokens`);
+  }
+  if (when.model) {
+    if (facts.model !== when.model) return null;
+    reasons.push(`model ${facts.model}`);
+  }
+  for (const [name, expected] of Object.entries(when.header || {})) {
+    const raw = facts.headers[name.toLowerCase()];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (value === undefined || (expected !== '*' && value !== expected)) return null;
+    reasons.push(`header ${name}: ${value}`);
+  }
+  if (when.budgetUsedPercent !== undefined) {
+    const used = facts.budgetUsedPercent();
+    if (used < when.budgetUsedPercent) return null;
+    reasons.push(`${used.toFixed(0)}% of budget used`);
+  }
+  return reasons.join(', ') || 'always';
+}
+
+/**
+ * Apply the first matching rule to a request: the provider, adapter, URL and body
+ * to send instead, or only the decision when no rule applies.
+ */
+export function routeRequest<P extends RoutableProvider>(
+  rules: RoutingRule[],
+  providers: P[],
+  input: RouteInput<P>
+): RouteResult<P> | { decision: RoutingDecision } {
+  const conversation: NormalizedConversation = input.adapter.normalizeRequest(input.requestData, input.targetUrl);
+  const facts = {
+    taskType: classifyTask(conversation.userPrompt),
+    promptTokens: estimateConversationTokens(conversation),
+    model: conversation.model,
+    headers: input.headers,
+    budgetUsedPercent: input.budgetUsedPercent,
+  };
+  const requested = { requestedProvider: input.provider.name, ...(conversation.model ? { requestedModel: conversation.model } : {}) };
+
+  for (const [index, rule] of rules.entries()) {
+    if (rule.from && !rule.from.includes(input.provider.name)) continue;
+    const reason = matchConditions(rule.when || {}, facts);
+    if (reason === null) continue;
+
+    const provider = rule.provider ? providers.find(candidate => candidate.name === rule.provider) : input.provider;
+    if (!provider) continue;
+    const target = retargetRequest(input, conversation, provider, rule.model);
+    if (!target) continue;
+    const decision: RoutingDecision = {
+      rule: ruleName(rule, index),
+      reason,
+      ...requested,
+      ...(target.translated ? { translatedFrom: input.adapter.format } : {}),
+    };
+    return { ...target, decision };
+  }
+
+  return { decision: { reason: 'no rule matched', ...requested } };
+}
+
+/**
+ * The request as it would be sent to `provider` (and `model`), or null when it cannot
+ * go there: a streamed request to another format, a request with more than text turns
+ * for another format, or a format without translation.
+ * Used by routing rules and by failover.
+ */
+export function retargetRequest<P extends RoutableProvider>(
+  input: Pick<RouteInput<P>, 'provider' | 'adapter' | 'targetUrl' | 'requestData' | 'streaming'>,
+  conversation: NormalizedConversation,
+  provider: P,
+  model?: string
+): Omit<RouteResult<P>, 'decision'> | null {
+  const adapter = resolveProviderAdapter(provider);
+
+  // --- Same wire format: forward the request body as it is ---
+  if (adapter.format === input.adapter.format) {
+    const requestData = structuredClone(input.requestData);
+    let targetUrl = provider === input.provider ? input.targetUrl : rebaseUrl(input.targetUrl, input.provider, provider);
+    if (model) {
+      if (!adapter.replaceModel) return null;
+      targetUrl = adapter.replaceModel(requestData, targetUrl, model);
+    }
+    return { provider, adapter, targetUrl, requestData, translated: false };
+  }
+
+  // --- Another format: rebuild the request from the normalized conversation ---
+  if (input.streaming || !adapter.buildRequest || !input.adapter.buildResponse) return null;
+  // Tools, sampling settings, response formats and the like would be silently dropped
+  if (!input.adapter.isTranslatable?.(input.requestData)) return null;
+  let targetUrl = provider.targetUrl;
+  const requestData = adapter.buildRequest(conversation, {
+    model,
+    maxOutputTokens: input.adapter.maxOutputTokens?.(input.requestData),
+  });
+  if (model && adapter.replaceModel) targetUrl = adapter.replaceModel(requestData, targetUrl, model);
+  // Without a model the target must name one itself (Gemini has it in the URL)
+  if (!adapter.normalizeRequest(requestData, targetUrl).model) return null;
+  return { provider, adapter, targetUrl, requestData, translated: true };
+}
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { sendMail, type MailMessage } from './smtp.js';
+
+/**
+ * A scripted SMTP server on a local port: answers each command via `reply` and records the session
+ */
+async function fakeServer(reply: (command: string) => string) {
+  const received: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        const response = reply(line);
+        if (line === 'DATA' && response.startsWith('354')) inData = true;
+        socket.write(`${response}\r\n`);
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { port, received, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+const standardReplies = (command: string): string => {
+  if (command.startsWith('EHLO')) return '250-test\r\n250 SIZE 1000000';
+  if (command === 'DATA') return '354 go ahead';
+  if (command === 'QUIT') return '221 bye';
+  return '250 ok';
+};
+
+const message: MailMessage = {
+  from: 'TokNXR <alerts@example.com>',
+  to: ['ana@example.com', 'Ben <ben@example.com>'],
+  subject: 'Budget\r\nexceeded',
+  text: 'Line one\n.\nLine three',
+};
+
+test('delivers a message with envelope addresses, one-line subject and dot-stuffed body', async () => {
+  const server = await fakeServer(standardReplies);
+  try {
+    await sendMail({ host: '127.0.0.1', port: server.port }, message);
+  } finally {
+    await server.close();
+  }
+
+  assert.ok(server.received[0].startsWith('EHLO '));
+  assert.deepEqual(server.received.slice(1, 4), [
+    'MAIL FROM:<alerts@example.com>',
+    'RCPT TO:<ana@example.com>',
+    'RCPT TO:<ben@example.com>',
+  ]);
+  assert.ok(server.received.includes('Subject: Budget exceeded'));
+  assert.ok(server.received.includes('To: ana@example.com, Ben <ben@example.com>'));
+  const body = server.received.slice(server.received.indexOf('Line one'));
+  assert.deepEqual(body.slice(0, 4), ['Line one', '..', 'Line three', '.']);
+  assert.equal(server.received[server.received.length - 1], 'QUIT');
+});
+
+test('refuses to send credentials over an unencrypted connection unless allowed', async () => {
+  const server = await fakeServer(command => (command.startsWith('AUTH') ? '235 ok' : standardReplies(command)));
+  const options = { host: '127.0.0.1', port: server.port, username: 'ana', password: 'secret' };
+  try {
+    await assert.rejects(sendMail(options, message), /not encrypted; refusing to send credentials/);
+    assert.ok(!server.received.some(line => line.startsWith('AUTH')));
+
+    await sendMail({ ...options, allowInsecureAuth: true }, message);
+    const credentials = Buffer.from('\u0000ana\u0000secret').toString('base64');
+    assert.ok(server.received.includes(`AUTH PLAIN ${credentials}`));
+  } finally {
+    await server.close();
+  }
+});
+
+test('fails with the server reply when a command is rejected', async () => {
+  const server = await fakeServer(command =>
+    command.startsWith('RCPT') ? '550 5.1.1 no such user' : standardReplies(command)
+  );
+  try {
+    await assert.rejects(
+      sendMail({ host: '127.0.0.1', port: server.port }, message),
+      /SMTP RCPT TO:<ana@example.com> failed: 550 5.1.1 no such user/
+    );
+  } finally {
+    await server.close();
+  }
+});
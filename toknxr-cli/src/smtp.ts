@@ -0,0 +1,180 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+
+/**
+ * Just enough SMTP to deliver a plain-text alert: EHLO, optional STARTTLS,
+ * AUTH PLAIN, one message, QUIT. Port 465 (or `secure: true`) uses implicit TLS.
+ * Credentials are only sent over TLS unless `allowInsecureAuth` is set.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port?: number; // default 587, or 465 when secure
+  secure?: boolean; // TLS from the first byte
+  starttls?: boolean; // upgrade a plain connection when the server offers it (default: true)
+  username?: string;
+  password?: string;
+  allowInsecureAuth?: boolean; // send AUTH over a connection that is not encrypted (default: false)
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads complete (possibly multi-line) replies off a socket in order
+ */
+class ReplyReader {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private partial: string[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket): void {
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  /**
+   * Stop reading a socket that is about to be wrapped in TLS
+   */
+  detach(socket: net.Socket): void {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('error');
+    socket.removeAllListeners('close');
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => (this.waiting = { resolve, reject }));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.partial.push(line.slice(4));
+      if (line[3] === '-') continue; // more lines of the same reply follow
+      this.deliver({ code: Number(line.slice(0, 3)), lines: this.partial });
+      this.partial = [];
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) waiting.resolve(reply);
+    else this.replies.push(reply);
+  }
+
+  private fail(error: Error): void {
+    this.failure ||= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(error);
+  }
+}
+
+const connect = (options: SmtpOptions, port: number, secure: boolean): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host: options.host, port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+const upgrade = (socket: net.Socket, host: string): Promise<tls.TLSSocket> =>
+  new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+
+/**
+ * Address part of `Name <addr@example.com>`
+ */
+const envelopeAddress = (address: string): string => address.match(/<([^>]+)>/)?.[1] || address.trim();
+
+const formatMessage = (message: MailMessage): string => {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  // Dot-stuff lines so a lone "." in the body does not end the message
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.\r\n`;
+};
+
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const secure = options.secure ?? options.port === 465;
+  const port = options.port ?? (secure ? 465 : 587);
+  let socket = await connect(options, port, secure);
+  let encrypted = secure;
+  const timer = setTimeout(() => socket.destroy(new Error('SMTP timed out')), options.timeoutMs ?? 15000);
+  const replies = new ReplyReader(socket);
+
+  const command = async (line: string | null, expect: number[]): Promise<SmtpReply> => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await replies.next();
+    if (!expect.includes(reply.code)) {
+      const shown = line?.startsWith('AUTH') ? 'AUTH' : line;
+      throw new Error(`SMTP ${shown ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const ehlo = await command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    if (!secure && options.starttls !== false && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await command('STARTTLS', [220]);
+      replies.detach(socket);
+      socket = await upgrade(socket, options.host);
+      encrypted = true;
+      replies.attach(socket);
+      await command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    }
+    if (options.username) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error('SMTP connection is not encrypted; refusing to send credentials (set allowInsecureAuth to allow)');
+      }
+      const credentials = Buffer.from(`\u0000${options.username}\u0000${options.password || ''}`).toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    socket.write(formatMessage(message));
+    await command(null, [250]);
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    clearTimeout(timer);
+    socket.destroy();
+  }
+}
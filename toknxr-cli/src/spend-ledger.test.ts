@@ -0,0 +1,68 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SpendLedger } from './spend-ledger.js';
+import type { BudgetRule } from './policy.js';
+
+let dir: string;
+let logFile: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-ledger-'));
+  logFile = path.join(dir, 'interactions.log');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const total: BudgetRule = { window: 'monthly', limitUSD: 100 };
+const line = (costUSD: number, extra: object = {}) =>
+  `${JSON.stringify({ timestamp: new Date().toISOString(), costUSD, provider: 'OpenAI', ...extra })}\n`;
+const spent = (ledger: SpendLedger) => ledger.current().spend(total)[''] || 0;
+
+test('counts the log at load and lines appended afterwards', () => {
+  fs.writeFileSync(logFile, line(1) + line(2, { outcome: 'error' }));
+  const ledger = SpendLedger.load(logFile);
+  assert.equal(spent(ledger), 1, 'failed requests carry no spend');
+
+  fs.appendFileSync(logFile, line(0.5));
+  assert.equal(spent(ledger), 1.5);
+});
+
+test('leaves a half-written line for the next read', () => {
+  const ledger = SpendLedger.load(logFile);
+  assert.equal(spent(ledger), 0, 'a missing log is no spend');
+
+  const next = line(2);
+  fs.writeFileSync(logFile, line(1) + next.slice(0, 10));
+  assert.equal(spent(ledger), 1);
+  fs.appendFileSync(logFile, next.slice(10));
+  assert.equal(spent(ledger), 3);
+});
+
+test('rebuilds the totals when the log is truncated or replaced', () => {
+  fs.writeFileSync(logFile, line(1) + line(2));
+  const ledger = SpendLedger.load(logFile);
+  assert.equal(spent(ledger), 3);
+
+  fs.writeFileSync(logFile, line(0.25));
+  assert.equal(spent(ledger), 0.25);
+
+  fs.writeFileSync(`${logFile}.new`, line(4) + line(4) + line(4));
+  fs.renameSync(`${logFile}.new`, logFile);
+  assert.equal(spent(ledger), 12);
+});
+
+test('keeps rotated spend after the proxy rotates the log, and reads rotated segments at load', () => {
+  fs.writeFileSync(logFile, line(1));
+  const ledger = SpendLedger.load(logFile);
+  fs.renameSync(logFile, path.join(dir, `interactions.${Date.now()}.log`));
+  ledger.rotated();
+  fs.writeFileSync(logFile, line(2));
+  assert.equal(spent(ledger), 3);
+
+  assert.equal(spent(SpendLedger.load(logFile)), 3);
+});
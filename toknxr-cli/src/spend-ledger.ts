@@ -0,0 +1,95 @@
+import fs from 'fs';
+import { parseSpendRecords, SpendAggregate, windowStart } from './policy.js';
+import { listLogSegments, readLogSegment } from './interaction-log.js';
+
+/**
+ * Keeps the proxy's SpendAggregate in step with interactions.log.
+ *
+ * At startup the current log and any segments rotated out since the start of last
+ * month are read; after that only bytes appended to the current file since the
+ * last look are parsed. If the file is replaced or truncated by someone else
+ * (`toknxr sync --clear`, a manual edit) the aggregate is rebuilt from scratch. The
+ * proxy's own rotation keeps the aggregate, since rotated lines still count towards budgets.
+ */
+export class SpendLedger {
+  private aggregate = new SpendAggregate();
+  private offset = 0;
+  private inode = 0;
+
+  constructor(private logFilePath: string) {}
+
+  static load(logFilePath: string): SpendLedger {
+    const ledger = new SpendLedger(logFilePath);
+    ledger.reseed();
+    return ledger;
+  }
+
+  /**
+   * Totals including everything appended to the log so far
+   */
+  current(): SpendAggregate {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(this.logFilePath);
+    } catch {
+      return this.aggregate; // not written yet, or rotated away and not recreated
+    }
+
+    if ((this.inode && stats.ino !== this.inode) || stats.size < this.offset) {
+      this.reseed();
+    } else if (stats.size > this.offset) {
+      this.readFrom(this.offset, stats);
+    }
+    return this.aggregate;
+  }
+
+  /**
+   * Called once the proxy has renamed the log, so the next file is read from its start
+   */
+  rotated(): void {
+    this.offset = 0;
+    this.inode = 0;
+  }
+
+  private reseed(): void {
+    this.aggregate = new SpendAggregate();
+    this.offset = 0;
+    this.inode = 0;
+    const cutoff = oldestWindowStart().getTime();
+    for (const segment of listLogSegments(this.logFilePath)) {
+      if (segment.rotatedAt === undefined || segment.rotatedAt < cutoff) continue;
+      try {
+        parseSpendRecords(readLogSegment(segment).toString('utf8')).forEach(record => this.aggregate.add(record));
+      } catch (error) {
+        console.warn(`Could not read ${segment.path}:`, error);
+      }
+    }
+    if (!fs.existsSync(this.logFilePath)) return;
+    this.readFrom(0, fs.statSync(this.logFilePath));
+  }
+
+  private readFrom(start: number, stats: fs.Stats): void {
+    const fd = fs.openSync(this.logFilePath, 'r');
+    try {
+      const buffer = Buffer.alloc(stats.size - start);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+      // Leave a half-written last line for the next read
+      const end = buffer.lastIndexOf(0x0a, bytesRead - 1) + 1;
+      parseSpendRecords(buffer.subarray(0, end).toString('utf8')).forEach(record => this.aggregate.add(record));
+      this.offset = start + end;
+      this.inode = stats.ino;
+    } finally {
+      fs.closeSync(fd);
+    }
+    this.aggregate.prune(oldestWindowStart());
+  }
+}
+
+/**
+ * Budget windows never reach back further than the start of last month
+ */
+function oldestWindowStart(): Date {
+  const lastMonth = windowStart('monthly');
+  lastMonth.setUTCMonth(lastMonth.getUTCMonth() - 1);
+  return lastMonth;
+}
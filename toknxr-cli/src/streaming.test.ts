@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isStreamingRequest,
+  StreamCollector,
+  assembleOpenAIStream,
+  assembleAnthropicStream,
+  assembleGeminiStream,
+  assembleOllamaStream,
+} from './streaming.js';
+
+test('isStreamingRequest reads stream: true and the Gemini streaming endpoint', () => {
+  assert.equal(isStreamingRequest({ stream: true }), true);
+  assert.equal(isStreamingRequest({ stream: false }), false);
+  assert.equal(isStreamingRequest(undefined), false);
+  assert.equal(isStreamingRequest({}, 'https://x/v1beta/models/gemini-pro:streamGenerateContent?alt=sse'), true);
+});
+
+test('isStreamingRequest treats Ollama chat and generate calls as streamed unless stream is false', () => {
+  assert.equal(isStreamingRequest({ model: 'llama3' }, 'http://localhost:11434/api/chat', 'ollama'), true);
+  assert.equal(isStreamingRequest({ model: 'llama3' }, 'http://localhost:11434/api/generate', 'ollama'), true);
+  assert.equal(isStreamingRequest({ stream: false }, 'http://localhost:11434/api/chat', 'ollama'), false);
+  assert.equal(isStreamingRequest({ model: 'llama3' }, 'http://localhost:11434/api/embed', 'ollama'), false);
+  assert.equal(isStreamingRequest({ model: 'llama3' }, 'http://localhost:11434/api/chat', 'openai'), false);
+});
+
+test('StreamCollector parses SSE split across chunks and skips comments and [DONE]', () => {
+  const collector = new StreamCollector();
+  collector.push(': keep-alive\nevent: message\ndata: {"a"');
+  collector.push(':1}\n\ndata: {"a":2}\n');
+  collector.push(Buffer.from('data: [DONE]\n'));
+  collector.end();
+  assert.deepEqual(collector.events, [{ a: 1 }, { a: 2 }]);
+});
+
+test('StreamCollector parses NDJSON, including a final line without a newline', () => {
+  const collector = new StreamCollector();
+  collector.push('{"response":"Hel"}\n{"response":"lo","done":true}');
+  collector.end();
+  assert.deepEqual(collector.events, [{ response: 'Hel' }, { response: 'lo', done: true }]);
+});
+
+test('StreamCollector recovers a Gemini JSON array stream', () => {
+  const collector = new StreamCollector();
+  collector.push('[{"candidates":[]}\n,');
+  collector.push('{"usageMetadata":{"totalTokenCount":3}}]');
+  collector.end();
+  assert.deepEqual(collector.events, [{ candidates: [] }, { usageMetadata: { totalTokenCount: 3 } }]);
+});
+
+test('assembleOpenAIStream joins deltas and keeps the final usage', () => {
+  const body = assembleOpenAIStream([
+    { model: 'gpt-4o', choices: [{ delta: { content: 'Hel' } }] },
+    { model: 'gpt-4o', choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] },
+    { model: 'gpt-4o', choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } },
+  ]);
+  assert.equal(body.model, 'gpt-4o');
+  assert.equal(body.choices[0].message.content, 'Hello');
+  assert.equal(body.choices[0].finish_reason, 'stop');
+  assert.deepEqual(body.usage, { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 });
+});
+
+test('assembleAnthropicStream merges input usage from message_start with output usage from message_delta', () => {
+  const body = assembleAnthropicStream([
+    { type: 'message_start', message: { model: 'claude-3-5-sonnet', usage: { input_tokens: 10, output_tokens: 1 } } },
+    { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi ' } },
+    { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{}' } },
+    { type: 'content_block_delta', delta: { type: 'text_delta', text: 'there' } },
+    { type: 'message_delta', usage: { output_tokens: 4 } },
+  ]);
+  assert.equal(body.model, 'claude-3-5-sonnet');
+  assert.equal(body.content[0].text, 'Hi there');
+  assert.deepEqual(body.usage, { input_tokens: 10, output_tokens: 4 });
+});
+
+test('assembleGeminiStream joins parts and keeps the last usage metadata', () => {
+  const body = assembleGeminiStream([
+    { candidates: [{ content: { parts: [{ text: 'a' }, { text: 'b' }] } }], modelVersion: 'gemini-1.5-pro' },
+    { candidates: [{ content: { parts: [{ text: 'c' }] } }], usageMetadata: { promptTokenCount: 2, candidatesTokenCount: 3 } },
+  ]);
+  assert.equal(body.candidates[0].content.parts[0].text, 'abc');
+  assert.equal(body.modelVersion, 'gemini-1.5-pro');
+  assert.deepEqual(body.usageMetadata, { promptTokenCount: 2, candidatesTokenCount: 3 });
+});
+
+test('assembleOllamaStream joins chat and generate chunks onto the final event', () => {
+  const body = assembleOllamaStream([
+    { model: 'llama3', message: { content: 'Hel' } },
+    { model: 'llama3', response: 'lo' },
+    { model: 'llama3', done: true, prompt_eval_count: 4, eval_count: 2 },
+  ]);
+  assert.equal(body.message.content, 'Hello');
+  assert.equal(body.done, true);
+  assert.equal(body.prompt_eval_count, 4);
+});
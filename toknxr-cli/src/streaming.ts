@@ -0,0 +1,163 @@
+/**
+ * Helpers for proxying streamed (SSE / NDJSON) upstream responses.
+ *
+ * The proxy pipes every chunk to the client as it arrives and feeds the same
+ * bytes into a StreamCollector. Once the stream ends, the collected events are
+ * folded back into the provider's regular (non-streamed) response shape so the
+ * existing token mapping and analysis pipeline can run unchanged.
+ */
+
+import type { ProviderFormat } from './provider-adapters.js';
+
+type JsonObject = Record<string, any>;
+
+/**
+ * Returns true when the upstream provider will stream its response: the client asked for it,
+ * or called Ollama's /api/chat or /api/generate, which stream unless sent `stream: false`
+ */
+export function isStreamingRequest(requestData: unknown, url: string = '', format?: ProviderFormat): boolean {
+  if (/:streamGenerateContent/.test(url)) return true;
+  if (!requestData || typeof requestData !== 'object') return false;
+  const stream = (requestData as JsonObject).stream;
+  if (format === 'ollama' && /\/api\/(chat|generate)(\?|$)/.test(url)) return stream !== false;
+  return stream === true;
+}
+
+/**
+ * Incrementally parses server-sent events and newline-delimited JSON
+ */
+export class StreamCollector {
+  readonly events: JsonObject[] = [];
+  private buffer = '';
+  private raw = '';
+
+  push(chunk: Buffer | string): void {
+    const text = typeof chunk === 'string' ? chunk : chunk.toString('utf8');
+    this.raw += text;
+    this.buffer += text;
+
+    let newlineIndex = this.buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.parseLine(line);
+      newlineIndex = this.buffer.indexOf('\n');
+    }
+  }
+
+  end(): void {
+    if (this.buffer) {
+      this.parseLine(this.buffer);
+      this.buffer = '';
+    }
+
+    // Gemini without `alt=sse` streams one JSON array rather than discrete events
+    if (this.events.length === 0 && this.raw.trim().startsWith('[')) {
+      try {
+        const parsed = JSON.parse(this.raw);
+        if (Array.isArray(parsed)) {
+          this.events.push(...parsed.filter(item => item && typeof item === 'object'));
+        }
+      } catch {
+        // Incomplete stream, nothing to recover
+      }
+    }
+  }
+
+  private parseLine(rawLine: string): void {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(':') || line.startsWith('event:') || line.startsWith('id:')) return;
+
+    const payload = line.startsWith('data:') ? line.slice(5).trim() : line;
+    if (!payload || payload === '[DONE]' || !payload.startsWith('{')) return;
+
+    try {
+      this.events.push(JSON.parse(payload));
+    } catch {
+      // Partial or non-JSON line; ignore
+    }
+  }
+}
+
+// Each assembler rebuilds a regular response body from streamed events, mirroring
+// what the provider would have sent for `stream: false`. Provider adapters pick one.
+
+export function assembleOpenAIStream(events: JsonObject[]): JsonObject {
+  let text = '';
+  let model: string | undefined;
+  let usage: JsonObject | undefined;
+  let finishReason: string | undefined;
+
+  for (const event of events) {
+    model = event.model || model;
+    if (event.usage) usage = event.usage;
+    const choice = event.choices?.[0];
+    if (choice?.delta?.content) text += choice.delta.content;
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+  }
+
+  return {
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: finishReason }],
+    usage,
+  };
+}
+
+export function assembleAnthropicStream(events: JsonObject[]): JsonObject {
+  let text = '';
+  let model: string | undefined;
+  const usage: JsonObject = {};
+
+  for (const event of events) {
+    if (event.type === 'message_start' && event.message) {
+      model = event.message.model;
+      Object.assign(usage, event.message.usage);
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      text += event.delta.text || '';
+    } else if (event.type === 'message_delta' && event.usage) {
+      Object.assign(usage, event.usage);
+    }
+  }
+
+  return {
+    model,
+    content: [{ type: 'text', text }],
+    usage,
+  };
+}
+
+export function assembleGeminiStream(events: JsonObject[]): JsonObject {
+  let text = '';
+  let usageMetadata: JsonObject | undefined;
+  let modelVersion: string | undefined;
+
+  for (const event of events) {
+    if (event.usageMetadata) usageMetadata = event.usageMetadata;
+    if (event.modelVersion) modelVersion = event.modelVersion;
+    const parts = event.candidates?.[0]?.content?.parts || [];
+    for (const part of parts) {
+      if (typeof part.text === 'string') text += part.text;
+    }
+  }
+
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+    usageMetadata,
+    modelVersion,
+  };
+}
+
+export function assembleOllamaStream(events: JsonObject[]): JsonObject {
+  let text = '';
+  const final = events[events.length - 1];
+
+  for (const event of events) {
+    // /api/chat streams `message.content`, /api/generate streams `response`
+    text += event.message?.content || event.response || '';
+  }
+
+  return {
+    ...final,
+    message: { role: 'assistant', content: text },
+  };
+}
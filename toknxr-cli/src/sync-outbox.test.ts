@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { retryDelayMs, SyncOutbox, SYNC_OUTBOX_FILE, type OutboxPayload } from './sync-outbox.js';
+
+const payload = (provider = 'OpenAI'): OutboxPayload => ({
+  provider,
+  model: 'gpt-4o',
+  totalTokens: 10,
+  costUSD: 0.01,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  requestDetails: 'q',
+  responseDetails: 'a',
+});
+
+const withDir = (run: (dir: string) => void) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-outbox-'));
+  try {
+    run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test('retryDelayMs doubles from 30 seconds and caps at 6 hours', () => {
+  assert.equal(retryDelayMs(1), 30_000);
+  assert.equal(retryDelayMs(2), 60_000);
+  assert.equal(retryDelayMs(4), 240_000);
+  assert.equal(retryDelayMs(50), 6 * 60 * 60 * 1000);
+});
+
+test('enqueue ignores known records unless requeueing synced ones', () => {
+  const outbox = new SyncOutbox('unused');
+  assert.equal(outbox.enqueue('a', payload()), true);
+  assert.equal(outbox.enqueue('a', payload()), false);
+  outbox.markSynced(['a']);
+  assert.equal(outbox.enqueue('a', payload()), false);
+  assert.equal(outbox.enqueue('a', payload(), true), true);
+  assert.equal(outbox.summary().pending, 1);
+});
+
+test('due holds failed records back until their backoff has elapsed', () => {
+  const outbox = new SyncOutbox('unused');
+  outbox.enqueue('a', payload());
+  outbox.enqueue('b', payload());
+  outbox.markFailed(['b'], 'offline');
+
+  assert.deepEqual(outbox.due().map(record => record.requestId), ['a']);
+  assert.deepEqual(outbox.due(new Date(Date.now() + 31_000)).map(record => record.requestId), ['a', 'b']);
+  assert.deepEqual(outbox.due(new Date(), true).map(record => record.requestId), ['a', 'b']);
+
+  outbox.markSynced(['a']);
+  assert.deepEqual(outbox.due(new Date(), true).map(record => record.requestId), ['b'], 'synced records drop their payload');
+});
+
+test('markFailed backs off longer after each failure', () => {
+  const outbox = new SyncOutbox('unused');
+  outbox.enqueue('a', payload());
+  outbox.markFailed(['a'], 'offline');
+  outbox.markFailed(['a'], 'offline');
+
+  assert.deepEqual(outbox.due(new Date(Date.now() + 31_000)), [], 'the second failure waits a minute');
+  const [record] = outbox.due(new Date(Date.now() + 61_000));
+  assert.deepEqual([record.status, record.attempts, record.lastError], ['failed', 2, 'offline']);
+});
+
+test('summary counts records by status and groups errors', () => {
+  const outbox = new SyncOutbox('unused');
+  ['a', 'b', 'c', 'd'].forEach(id => outbox.enqueue(id, payload()));
+  outbox.markFailed(['a', 'b'], 'offline');
+  outbox.markFailed(['c'], 'HTTP 500');
+  outbox.markSynced(['d']);
+
+  const summary = outbox.summary();
+  assert.deepEqual([summary.pending, summary.failed, summary.synced], [0, 3, 1]);
+  assert.deepEqual(summary.errors, { offline: 2, 'HTTP 500': 1 });
+  assert.ok(summary.nextRetryAt && summary.oldestUnsyncedAt);
+});
+
+test('save and load round-trip the queue and drop long-synced records', () => {
+  withDir(dir => {
+    const outbox = SyncOutbox.load(dir);
+    outbox.enqueue('pending', payload());
+    outbox.enqueue('old', payload());
+    outbox.markSynced(['old']);
+    const file = path.join(dir, SYNC_OUTBOX_FILE);
+    outbox.save();
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+    saved.records.find((record: { requestId: string }) => record.requestId === 'old').syncedAt = '2020-01-01T00:00:00.000Z';
+    fs.writeFileSync(file, JSON.stringify(saved));
+
+    const reloaded = SyncOutbox.load(dir);
+    assert.deepEqual([reloaded.summary().pending, reloaded.summary().synced], [1, 1]);
+    reloaded.save();
+    assert.equal(SyncOutbox.load(dir).summary().synced, 0);
+  });
+});
+
+test('load moves an unreadable outbox aside instead of overwriting it', () => {
+  withDir(dir => {
+    fs.writeFileSync(path.join(dir, SYNC_OUTBOX_FILE), '{not json');
+    const error = console.error;
+    console.error = () => {};
+    try {
+      assert.equal(SyncOutbox.load(dir).summary().pending, 0);
+    } finally {
+      console.error = error;
+    }
+    assert.ok(fs.readdirSync(dir).some(file => file.startsWith(`${SYNC_OUTBOX_FILE}.corrupt-`)));
+  });
+});
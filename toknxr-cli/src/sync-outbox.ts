@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Durable queue of interactions waiting to be uploaded by `toknxr sync`.
+ *
+ * Lines read from interactions.log are copied into the outbox before any network
+ * call, so nothing is lost if the upload fails, the machine is offline for days,
+ * or the log is cleared or rotated in the meantime. Each record tracks its own
+ * status and retry schedule.
+ */
+
+export const SYNC_OUTBOX_FILE = 'toknxr.sync-outbox.json';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const SYNCED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type OutboxStatus = 'pending' | 'failed' | 'synced';
+
+/**
+ * The fields of a log line needed to build its `interactions` row
+ */
+export interface OutboxPayload {
+  provider: string;
+  model: string;
+  project?: string;
+  totalTokens: number;
+  costUSD: number;
+  timestamp: string;
+  requestDetails: string;
+  responseDetails: string;
+}
+
+export interface OutboxRecord {
+  requestId: string;
+  status: OutboxStatus;
+  attempts: number;
+  enqueuedAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string; // failed records are not retried before this time
+  syncedAt?: string;
+  lastError?: string;
+  payload?: OutboxPayload; // dropped once synced
+}
+
+export interface OutboxSummary {
+  pending: number;
+  failed: number;
+  synced: number;
+  oldestUnsyncedAt?: string;
+  nextRetryAt?: string;
+  errors: Record<string, number>; // last error message -> failed record count
+}
+
+/**
+ * Delay before the next attempt: 30s doubling per failure, capped at 6 hours
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export class SyncOutbox {
+  private records: Map<string, OutboxRecord> = new Map();
+
+  constructor(private filePath: string) {}
+
+  static load(cwd: string = process.cwd()): SyncOutbox {
+    const outbox = new SyncOutbox(path.resolve(cwd, SYNC_OUTBOX_FILE));
+    if (!fs.existsSync(outbox.filePath)) return outbox;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(outbox.filePath, 'utf8'));
+      for (const record of parsed.records || []) {
+        outbox.records.set(record.requestId, record);
+      }
+    } catch (error) {
+      // Keep the unreadable file for inspection instead of overwriting it
+      const backup = `${outbox.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(outbox.filePath, backup);
+      console.error(`Could not read ${SYNC_OUTBOX_FILE}; moved it to ${backup}:`, error);
+    }
+    return outbox;
+  }
+
+  save(): void {
+    this.prune();
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version: 1, records: [...this.records.values()] }));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  /**
+   * Queue an interaction. Already-known records are left alone unless `requeue`
+   * is set, which sends synced records up again (used by `sync --full`).
+   */
+  enqueue(requestId: string, payload: OutboxPayload, requeue = false): boolean {
+    const existing = this.records.get(requestId);
+    if (existing && !(requeue && existing.status === 'synced')) return false;
+
+    this.records.set(requestId, {
+      requestId,
+      status: 'pending',
+      attempts: 0,
+      enqueuedAt: new Date().toISOString(),
+      payload,
+    });
+    return true;
+  }
+
+  /**
+   * Records to attempt now: pending ones, plus failed ones whose backoff has elapsed
+   */
+  due(now: Date = new Date(), ignoreBackoff = false): OutboxRecord[] {
+    return [...this.records.values()].filter(
+      record =>
+        record.payload &&
+        (record.status === 'pending' ||
+          (record.status === 'failed' &&
+            (ignoreBackoff || !record.nextAttemptAt || new Date(record.nextAttemptAt) <= now)))
+    );
+  }
+
+  markSynced(requestIds: string[]): void {
+    const now = new Date().toISOString();
+    for (const id of requestIds) {
+      const record = this.records.get(id);
+      if (!record) continue;
+      record.status = 'synced';
+      record.attempts += 1;
+      record.lastAttemptAt = now;
+      record.syncedAt = now;
+      delete record.lastError;
+      delete record.nextAttemptAt;
+      delete record.payload;
+    }
+  }
+
+  markFailed(requestIds: string[], error: string): void {
+    const now = Date.now();
+    for (const id of requestIds) {
+      const record = this.records.get(id);
+      if (!record) continue;
+      record.status = 'failed';
+      record.attempts += 1;
+      record.lastAttemptAt = new Date(now).toISOString();
+      record.nextAttemptAt = new Date(now + retryDelayMs(record.attempts)).toISOString();
+      record.lastError = error;
+    }
+  }
+
+  summary(): OutboxSummary {
+    const summary: OutboxSummary = { pending: 0, failed: 0, synced: 0, errors: {} };
+    for (const record of this.records.values()) {
+      summary[record.status] += 1;
+      if (record.status !== 'synced' && (!summary.oldestUnsyncedAt || record.enqueuedAt < summary.oldestUnsyncedAt)) {
+        summary.oldestUnsyncedAt = record.enqueuedAt;
+      }
+      if (record.status === 'failed') {
+        if (record.nextAttemptAt && (!summary.nextRetryAt || record.nextAttemptAt < summary.nextRetryAt)) {
+          summary.nextRetryAt = record.nextAttemptAt;
+        }
+        const message = record.lastError || 'unknown error';
+        summary.errors[message] = (summary.errors[message] || 0) + 1;
+      }
+    }
+    return summary;
+  }
+
+  // Synced records are kept for a while so re-reading an old log does not upload them again
+  private prune(): void {
+    const cutoff = Date.now() - SYNCED_RETENTION_MS;
+    for (const [id, record] of this.records) {
+      if (record.status === 'synced' && record.syncedAt && new Date(record.syncedAt).getTime() < cutoff) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { findProject, loadSyncState, queueNewInteractions, uploadRows } from './sync.js';
+import { SyncOutbox } from './sync-outbox.js';
+
+let dir: string;
+const initialCwd = process.cwd();
+
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'toknxr-sync-'));
+  process.chdir(dir);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  process.chdir(initialCwd);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const lines = (...ids: string[]) =>
+  ids
+    .map(id => JSON.stringify({ requestId: id, provider: 'OpenAI', model: 'gpt-4o', totalTokens: 10, costUSD: 0.01, timestamp: '2026-01-01T00:00:00Z' }))
+    .join('\n') + '\n';
+
+const queuedIds = (outbox: SyncOutbox) => outbox.due().map(record => record.requestId);
+
+test('queueNewInteractions picks up where it stopped in a log that was rotated and compressed since', () => {
+  const outbox = SyncOutbox.load();
+  fs.writeFileSync('interactions.log', lines('a', 'b'));
+  assert.deepEqual(queueNewInteractions(outbox, false), { queued: 2, invalid: 0 });
+
+  fs.appendFileSync('interactions.log', lines('c'));
+  fs.writeFileSync('interactions.1000.log.gz', gzipSync(fs.readFileSync('interactions.log')));
+  fs.writeFileSync('interactions.log', lines('d'));
+
+  assert.deepEqual(queueNewInteractions(outbox, false), { queued: 2, invalid: 0 });
+  assert.deepEqual(queuedIds(outbox), ['a', 'b', 'c', 'd']);
+  assert.equal(loadSyncState().lastRequestId, 'd');
+
+  assert.deepEqual(queueNewInteractions(outbox, false), { queued: 0, invalid: 0 }, 'nothing new since');
+});
+
+test('queueNewInteractions leaves a half-written line for the next run and skips failed requests', () => {
+  const outbox = SyncOutbox.load();
+  fs.writeFileSync('interactions.log', `${lines('a')}${JSON.stringify({ requestId: 'e', outcome: 'error' })}\n{"requestId":`);
+  assert.deepEqual(queueNewInteractions(outbox, false), { queued: 1, invalid: 0 });
+
+  fs.appendFileSync('interactions.log', `"b"}\n`);
+  queueNewInteractions(outbox, false);
+  assert.deepEqual(queuedIds(outbox), ['a', 'b']);
+});
+
+test('findProject matches by id or by name, but not by an ambiguous name', () => {
+  const warn = mock.method(console, 'warn', () => {});
+  const projects = [
+    { id: 'p1', name: 'Mobile App' },
+    { id: 'p2', name: 'Web' },
+    { id: 'p3', name: 'web' },
+  ];
+  assert.equal(findProject(projects, 'p2')?.id, 'p2');
+  assert.equal(findProject(projects, 'mobile app')?.id, 'p1');
+  assert.equal(findProject(projects, 'Web'), undefined);
+  assert.equal(warn.mock.callCount(), 1);
+  assert.equal(findProject(projects, 'Desktop'), undefined);
+});
+
+/**
+ * A Supabase client whose interactions upserts fail as `respond` decides
+ */
+const fakeSupabase = (respond: (rows: Array<{ request_id: string }>) => { message: string; code?: string } | null) => {
+  const calls: number[] = [];
+  const client = {
+    from: () => ({
+      upsert: async (value: { request_id: string } | Array<{ request_id: string }>) => {
+        const rows = Array.isArray(value) ? value : [value];
+        calls.push(rows.length);
+        return { error: respond(rows) };
+      },
+    }),
+  };
+  return { supabase: client as unknown as SupabaseClient, calls };
+};
+
+const queuedRows = (outbox: SyncOutbox, ...ids: string[]) =>
+  ids.map(requestId => {
+    outbox.enqueue(requestId, { provider: 'OpenAI', model: 'gpt-4o', totalTokens: 1, costUSD: 0, timestamp: '', requestDetails: '', responseDetails: '' });
+    return { requestId, row: { request_id: requestId } };
+  });
+
+test('uploadRows retries a rejected chunk row by row so only the bad record fails', async () => {
+  const outbox = SyncOutbox.load();
+  const { supabase, calls } = fakeSupabase(rows =>
+    rows.some(row => row.request_id === 'bad') ? { message: 'violates foreign key constraint', code: '23503' } : null
+  );
+
+  assert.deepEqual(await uploadRows(supabase, outbox, queuedRows(outbox, 'a', 'bad', 'c')), { synced: 2, offline: false });
+  assert.deepEqual(calls, [3, 1, 1, 1]);
+  const summary = outbox.summary();
+  assert.deepEqual([summary.synced, summary.failed], [2, 1]);
+  assert.deepEqual(summary.errors, { '23503: violates foreign key constraint': 1 });
+});
+
+test('uploadRows keeps records queued without retrying rows when Supabase cannot be reached', async () => {
+  const outbox = SyncOutbox.load();
+  const { supabase, calls } = fakeSupabase(() => ({ message: 'fetch failed' }));
+
+  assert.deepEqual(await uploadRows(supabase, outbox, queuedRows(outbox, 'a', 'b')), { synced: 0, offline: true });
+  assert.deepEqual(calls, [2]);
+  assert.deepEqual(outbox.summary().errors, { 'fetch failed': 2 });
+});
@@ -1,11 +1,15 @@
 import fs from 'fs';
 import path from 'path';
+import { createHash } from 'crypto';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { getToken } from './auth.js';
-import { setAuthToken } from './config.js';
+import { authenticateClient, tokenProjectId } from './auth.js';
+import { resolvePricing } from './pricing.js';
+import { SyncOutbox, OutboxPayload } from './sync-outbox.js';
+import { isFailedInteraction, listLogSegments, readLogSegment } from './interaction-log.js';
 import chalk from 'chalk';
 
 interface InteractionLog {
+  requestId?: string;
   timestamp: string;
   provider: string;
   model: string;
@@ -19,111 +23,568 @@ interface InteractionLog {
   extractedCode?: string;
   codeQualityScore?: number;
   effectivenessScore?: number;
+  project?: string; // from the X-Toknxr-Project header
+  outcome?: 'success' | 'error';
   [key: string]: any;
 }
 
-export async function syncInteractions(supabase: SupabaseClient, options: { clear?: boolean }) {
-    console.log(chalk.blue('Syncing local analytics with the cloud dashboard...'));
+interface ProjectRow {
+  id: string;
+  name: string;
+}
 
-    // Get the stored token
-    const token = await getToken();
-    if (!token) {
-        console.error(chalk.red('No authentication token found. Please login first with `toknxr login`.'));
-        process.exit(1);
+interface ServiceRow {
+  id: string;
+  provider: string;
+  name: string;
+}
+
+/**
+ * Maps a logged model name to an existing ai_services row: either a service name
+ * under the same provider, or an explicit provider and name.
+ */
+export type ServiceAlias = string | { provider: string; name: string };
+
+export interface SyncConfig {
+  defaultProject?: string;
+  serviceAliases: Record<string, ServiceAlias>;
+}
+
+interface ServiceResolution {
+  ids: Map<string, string>; // `${provider}::${model}` -> ai_services.id
+  created: string[];
+  mapped: string[];
+  skipped: string[];
+}
+
+/**
+ * How far sync has read interactions.log. `headHash` fingerprints the first line
+ * so a rotated log can be found among the rotated segments and finished from the
+ * cursor, and a cleared log is re-read from the start.
+ */
+export interface SyncState {
+  version: 1;
+  offset: number; // bytes of interactions.log already copied to the outbox
+  headHash: string | null;
+  lastRequestId?: string; // last request queued
+  lastSyncedAt?: string;
+  totalSynced: number;
+}
+
+export const SYNC_STATE_FILE = 'toknxr.sync-state.json';
+const SYNC_CHUNK_SIZE = 500;
+
+interface PendingLine {
+  log: InteractionLog;
+  requestId: string;
+}
+
+const hashText = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+const headHashOf = (content: Buffer): string | null => {
+  const firstNewline = content.indexOf(0x0a);
+  return firstNewline > 0 ? hashText(content.subarray(0, firstNewline).toString('utf8')) : null;
+};
+
+/**
+ * Sync settings for this directory: `defaultProject` and `serviceAliases` in toknxr.config.json
+ */
+export function loadSyncConfig(cwd: string = process.cwd()): SyncConfig {
+  const configPath = path.resolve(cwd, 'toknxr.config.json');
+  if (!fs.existsSync(configPath)) return { serviceAliases: {} };
+  try {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    return {
+      defaultProject:
+        typeof config.defaultProject === 'string' && config.defaultProject.trim()
+          ? config.defaultProject.trim()
+          : undefined,
+      serviceAliases: config.serviceAliases || {},
+    };
+  } catch (error) {
+    console.warn('Could not read sync settings from toknxr.config.json:', error);
+    return { serviceAliases: {} };
+  }
+}
+
+/**
+ * Match a project by id, or by name (case-insensitive). Ambiguous names do not match.
+ */
+export function findProject(projects: ProjectRow[], nameOrId: string): ProjectRow | undefined {
+  const byId = projects.find(p => p.id === nameOrId);
+  if (byId) return byId;
+  const byName = projects.filter(p => p.name.toLowerCase() === nameOrId.toLowerCase());
+  if (byName.length > 1) {
+    console.warn(chalk.yellow(`Project name "${nameOrId}" matches ${byName.length} projects; use its id instead.`));
+    return undefined;
+  }
+  return byName[0];
+}
+
+const serviceKey = (provider: string, name: string) => `${provider}::${name}`;
+
+/**
+ * Find the ai_services row for every provider/model pair in the log. Pairs with no
+ * row are mapped through `serviceAliases`, or created with catalog pricing.
+ */
+async function resolveServices(
+  supabase: SupabaseClient,
+  pairs: Array<{ provider: string; model: string }>,
+  aliases: Record<string, ServiceAlias>,
+  createMissing: boolean
+): Promise<ServiceResolution | null> {
+  const resolution: ServiceResolution = { ids: new Map(), created: [], mapped: [], skipped: [] };
+
+  const aliasTarget = (provider: string, model: string) => {
+    const alias = aliases[model];
+    if (!alias) return null;
+    return typeof alias === 'string' ? { provider, name: alias } : alias;
+  };
+
+  // One query covers the logged providers and any providers aliases point at
+  const providers = new Set(pairs.map(p => p.provider));
+  pairs.forEach(p => {
+    const target = aliasTarget(p.provider, p.model);
+    if (target) providers.add(target.provider);
+  });
+  const { data: services, error } = await supabase
+    .from('ai_services')
+    .select('id, provider, name')
+    .in('provider', [...providers]);
+
+  if (error) {
+    console.error('Error loading AI services:', error);
+    return null;
+  }
+  const existing = new Map<string, string>();
+  ((services as ServiceRow[] | null) || []).forEach(service => existing.set(serviceKey(service.provider, service.name), service.id));
+
+  const toCreate: Array<{ provider: string; model: string }> = [];
+  for (const { provider, model } of pairs) {
+    const key = serviceKey(provider, model);
+    const direct = existing.get(key);
+    if (direct) {
+      resolution.ids.set(key, direct);
+      continue;
+    }
+
+    const target = aliasTarget(provider, model);
+    const aliased = target ? existing.get(serviceKey(target.provider, target.name)) : undefined;
+    if (aliased && target) {
+      resolution.ids.set(key, aliased);
+      resolution.mapped.push(`${provider} / ${model} → ${target.provider} / ${target.name}`);
+    } else if (target) {
+      resolution.skipped.push(`${provider} / ${model} (alias target ${target.provider} / ${target.name} not found)`);
+    } else if (createMissing) {
+      toCreate.push({ provider, model });
+    } else {
+      resolution.skipped.push(`${provider} / ${model}`);
+    }
+  }
+
+  if (toCreate.length > 0) {
+    const rows = toCreate.map(({ provider, model }) => {
+      const pricing = resolvePricing(model);
+      const priced = pricing.matchedBy !== 'fallback' && pricing.matchedBy !== 'unknown';
+      return {
+        provider,
+        name: model,
+        // Input price per 1M tokens; unpriced models are registered at 0 until the catalog covers them
+        token_cost_per_unit: priced ? pricing.rates.promptPer1M : 0,
+        unit_type: '1m_tokens',
+        description: priced
+          ? `Registered by toknxr sync. $${pricing.rates.promptPer1M} input / $${pricing.rates.completionPer1M} output per 1M tokens (${pricing.model}).`
+          : 'Registered by toknxr sync. Not in the local pricing catalog.',
+      };
+    });
+
+    const { data: created, error: createError } = await supabase
+      .from('ai_services')
+      .insert(rows)
+      .select('id, provider, name');
+
+    if (createError) {
+      console.error('Error registering AI services:', createError);
+      toCreate.forEach(({ provider, model }) => resolution.skipped.push(`${provider} / ${model} (could not be created)`));
+    } else {
+      ((created as ServiceRow[] | null) || []).forEach(service => {
+        resolution.ids.set(serviceKey(service.provider, service.name), service.id);
+        resolution.created.push(`${service.provider} / ${service.name}`);
+      });
+    }
+  }
+
+  return resolution;
+}
+
+const emptySyncState = (): SyncState => ({ version: 1, offset: 0, headHash: null, totalSynced: 0 });
+
+export function loadSyncState(cwd: string = process.cwd()): SyncState {
+  const statePath = path.resolve(cwd, SYNC_STATE_FILE);
+  if (!fs.existsSync(statePath)) return emptySyncState();
+  try {
+    return { ...emptySyncState(), ...JSON.parse(fs.readFileSync(statePath, 'utf8')) };
+  } catch (error) {
+    console.warn(`Could not read ${SYNC_STATE_FILE}, syncing from the start of the log:`, error);
+    return emptySyncState();
+  }
+}
+
+export function saveSyncState(state: SyncState, cwd: string = process.cwd()) {
+  const statePath = path.resolve(cwd, SYNC_STATE_FILE);
+  const tmpPath = `${statePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, statePath);
+}
+
+/**
+ * Parse the complete lines after `offset`. A trailing partial line (still being
+ * written by the proxy) is left for the next run.
+ */
+function readPendingLines(
+  content: Buffer,
+  offset: number
+): { pending: PendingLine[]; invalid: number; readTo: number } {
+  const pending: PendingLine[] = [];
+  let invalid = 0;
+  let lineStart = offset;
+
+  while (lineStart < content.length) {
+    const newline = content.indexOf(0x0a, lineStart);
+    if (newline === -1) break;
+    const line = content.subarray(lineStart, newline).toString('utf8').trim();
+    lineStart = newline + 1;
+    if (!line) continue;
+
+    try {
+      const log = JSON.parse(line) as InteractionLog;
+      // Lines written before request ids were logged get a stable id from their content
+      const requestId = log.requestId || `legacy-${hashText(line).slice(0, 32)}`;
+      pending.push({ log, requestId });
+    } catch {
+      invalid++;
+      console.warn(`Skipping invalid log entry: ${line.slice(0, 120)}`);
     }
+  }
 
-    // Set auth in Supabase
-    setAuthToken(token);
+  return { pending, invalid, readTo: lineStart };
+}
 
+/**
+ * Copy log lines added since the cursor into the outbox. Nothing here touches the network.
+ */
+export function queueNewInteractions(outbox: SyncOutbox, full: boolean): { queued: number; invalid: number } {
     const logFilePath = path.resolve(process.cwd(), 'interactions.log');
-    if (!fs.existsSync(logFilePath)) {
-      console.log(chalk.yellow('No interactions.log file found. Nothing to sync.'));
-      return;
+    const segments = listLogSegments(logFilePath);
+    if (segments.length === 0) return { queued: 0, invalid: 0 };
+
+    const current = segments[segments.length - 1].rotatedAt === undefined ? segments.pop()! : undefined;
+    const content = current ? readLogSegment(current) : Buffer.alloc(0);
+    const headHash = headHashOf(content);
+
+    // --- Resume from the cursor unless the log was rotated, cleared or a full resync was asked for ---
+    let state = loadSyncState();
+    const sources: Array<{ content: Buffer; offset: number }> = [];
+    if (full) {
+      console.log(chalk.gray('Full resync requested; re-uploading the whole log (existing rows are updated, not duplicated).'));
+      segments.forEach(segment => sources.push({ content: readLogSegment(segment), offset: 0 }));
+      state = { ...state, offset: 0 };
+    } else if (state.offset > content.length || (state.offset > 0 && state.headHash !== headHash)) {
+      // Finish the file the cursor points into, then everything rotated after it
+      const rotated = segments.map(segment => readLogSegment(segment));
+      const from = rotated.findIndex(segmentContent => headHashOf(segmentContent) === state.headHash);
+      if (from >= 0) {
+        console.log(chalk.gray('interactions.log was rotated since the last sync; picking up the rotated segments.'));
+        rotated.slice(from).forEach((segmentContent, i) => sources.push({ content: segmentContent, offset: i === 0 ? state.offset : 0 }));
+      } else {
+        console.log(chalk.gray('interactions.log changed since the last sync; starting from the beginning.'));
+      }
+      state = { ...state, offset: 0 };
     }
 
-    const fileContent = fs.readFileSync(logFilePath, 'utf8');
-    const lines = fileContent.trim().split('\n');
-    if (lines.length === 0 || (lines.length === 1 && lines[0] === '')) {
-        console.log(chalk.yellow('Log file is empty. Nothing to sync.'));
-        return;
+    let invalid = 0;
+    const pending: PendingLine[] = [];
+    for (const source of sources) {
+      const read = readPendingLines(source.content, source.offset);
+      pending.push(...read.pending);
+      invalid += read.invalid;
+    }
+    const read = readPendingLines(content, state.offset);
+    pending.push(...read.pending);
+    invalid += read.invalid;
+    const readTo = read.readTo;
+
+    let queued = 0;
+    for (const { log, requestId } of pending) {
+      // Failed requests stay local; they are for `toknxr stats`, not usage
+      if (isFailedInteraction(log)) continue;
+      const added = outbox.enqueue(
+        requestId,
+        {
+          provider: log.provider,
+          model: log.model,
+          ...(log.project ? { project: log.project } : {}),
+          totalTokens: log.totalTokens || 0,
+          costUSD: log.costUSD || 0,
+          timestamp: log.timestamp,
+          requestDetails: log.userPrompt || '',
+          responseDetails: log.aiResponse || log.extractedCode || '',
+        },
+        full
+      );
+      if (added) queued++;
     }
 
-    const logs: InteractionLog[] = [];
-    for (const line of lines) {
-      try {
-        const log = JSON.parse(line);
-        logs.push(log);
-      } catch (error) {
-        console.warn(`Skipping invalid log entry: ${line}`);
+    // The outbox is written before the cursor moves, so a crash in between only re-reads lines
+    outbox.save();
+    saveSyncState({
+      ...state,
+      offset: readTo,
+      headHash,
+      ...(pending.length ? { lastRequestId: pending[pending.length - 1].requestId } : {}),
+    });
+    return { queued, invalid };
+}
+
+const describeError = (error: { message?: string; code?: string }): string =>
+  error.code ? `${error.code}: ${error.message}` : error.message || 'unknown error';
+
+/**
+ * Upsert rows in chunks, saving each record's outcome as it goes. A chunk the database
+ * rejects is retried row by row; if Supabase cannot be reached the rest stay queued.
+ */
+export async function uploadRows(
+  supabase: SupabaseClient,
+  outbox: SyncOutbox,
+  rows: Array<{ requestId: string; row: Record<string, unknown> }>
+): Promise<{ synced: number; offline: boolean }> {
+  let synced = 0;
+  let offline = false;
+  for (let i = 0; i < rows.length; i += SYNC_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + SYNC_CHUNK_SIZE);
+    const { error: upsertError } = await supabase
+      .from('interactions')
+      .upsert(chunk.map(c => c.row), { onConflict: 'request_id' });
+
+    if (!upsertError) {
+      outbox.markSynced(chunk.map(c => c.requestId));
+      synced += chunk.length;
+    } else if (!upsertError.code) {
+      // No database error code means the request never reached Supabase; stop and keep the rest queued
+      outbox.markFailed(chunk.map(c => c.requestId), describeError(upsertError));
+      offline = true;
+    } else {
+      // The database rejected the batch; retry one by one so only the bad records fail
+      for (const { requestId, row } of chunk) {
+        const { error } = await supabase.from('interactions').upsert(row, { onConflict: 'request_id' });
+        if (error) {
+          outbox.markFailed([requestId], describeError(error));
+        } else {
+          outbox.markSynced([requestId]);
+          synced++;
+        }
       }
     }
+    outbox.save();
+    if (offline) break;
+  }
+  return { synced, offline };
+}
+
+export async function syncInteractions(
+  supabase: SupabaseClient,
+  options: { clear?: boolean; full?: boolean; project?: string; createServices?: boolean; retry?: boolean }
+) {
+    console.log(chalk.blue('Syncing local analytics with the cloud dashboard...'));
+
+    // Load the stored session (refreshing it if needed) and attach it to the client
+    const session = await authenticateClient(supabase);
+    if (!session) {
+        process.exit(1);
+    }
 
-    if (logs.length === 0) {
-      console.log('No valid interactions to sync.');
+    const logFilePath = path.resolve(process.cwd(), 'interactions.log');
+    const outbox = SyncOutbox.load();
+    const { queued, invalid } = queueNewInteractions(outbox, !!options.full);
+    if (queued > 0) {
+      console.log(chalk.gray(`${queued} new interaction(s) queued since the last sync.`));
+    }
+    if (invalid > 0) {
+      console.warn(chalk.yellow(`Skipped ${invalid} invalid log line(s).`));
+    }
+
+    const due = outbox.due(new Date(), options.retry);
+    if (due.length === 0) {
+      const summary = outbox.summary();
+      if (summary.failed > 0) {
+        console.log(
+          chalk.yellow(
+            `${summary.failed} interaction(s) waiting to retry${summary.nextRetryAt ? ` (next at ${new Date(summary.nextRetryAt).toLocaleString()})` : ''}. Use --retry to try now.`
+          )
+        );
+      } else {
+        console.log(chalk.green('Everything is already synced.'));
+      }
       return;
     }
+    console.log(chalk.gray(`Uploading ${due.length} interaction(s)...`));
 
-    // Map logs to interactions
-    const interactions = [];
-    for (const log of logs) {
-      // Find ai_service_id by provider and model
-      const { data: aiService, error: aiError } = await supabase
-        .from('ai_services')
-        .select('id')
-        .eq('provider', log.provider)
-        .eq('name', log.model)
-        .single();
+    // --- Resolve projects: X-Toknxr-Project on the line, then --project, then defaultProject ---
+    const { data: projects, error: projError } = await supabase
+      .from('projects')
+      .select('id, name');
 
-      if (aiError || !aiService) {
-        console.warn(`AI service not found for provider: ${log.provider}, model: ${log.model}`);
-        continue;
+    if (projError || !projects || projects.length === 0) {
+      console.error(projError ? `Could not load projects (${describeError(projError)}); interactions stay queued.` : 'No projects found for user.');
+      return;
+    }
+
+    const syncConfig = loadSyncConfig();
+    // An API token's project supplies the default when nothing else does
+    const fallbackProjectName = options.project || syncConfig.defaultProject || tokenProjectId(session);
+    let fallbackProject: ProjectRow | undefined;
+    if (fallbackProjectName) {
+      fallbackProject = findProject(projects, fallbackProjectName);
+      if (!fallbackProject) {
+        console.error(chalk.red(`Project not found: ${fallbackProjectName}`));
+        console.log(chalk.gray(`Available projects: ${projects.map(p => p.name).join(', ')}`));
+        return;
       }
+    } else if (projects.length === 1) {
+      fallbackProject = projects[0];
+    } else if (due.some(record => !record.payload?.project)) {
+      console.error(chalk.red('You have access to several projects; choose one for these interactions.'));
+      console.log(chalk.gray('Use `toknxr sync --project <name|id>` or set "defaultProject" in toknxr.config.json.'));
+      console.log(chalk.gray(`Available projects: ${projects.map(p => p.name).join(', ')}`));
+      return;
+    }
+    if (fallbackProject) {
+      console.log(chalk.gray(`Syncing to project: ${fallbackProject.name}`));
+    }
 
-      // Assume project_id - for now, use a default or query user's projects
-      // TODO: Add project selection or default project
-      const { data: projects, error: projError } = await supabase
-        .from('projects')
-        .select('id')
-        .limit(1);
+    const projectIds = new Map<string, string | undefined>();
+    const resolveProjectId = (payload: OutboxPayload): string | undefined => {
+      if (!payload.project) return fallbackProject?.id;
+      if (!projectIds.has(payload.project)) projectIds.set(payload.project, findProject(projects, payload.project)?.id);
+      return projectIds.get(payload.project);
+    };
 
-      if (projError || !projects || projects.length === 0) {
-        console.error('No projects found for user.');
+    // --- Look up (and register) every referenced AI service in one pass ---
+    const pairs = new Map<string, { provider: string; model: string }>();
+    due.forEach(({ payload }) => {
+      if (payload) pairs.set(serviceKey(payload.provider, payload.model), { provider: payload.provider, model: payload.model });
+    });
+    const services = await resolveServices(
+      supabase,
+      [...pairs.values()],
+      syncConfig.serviceAliases,
+      options.createServices !== false
+    );
+    if (!services) return;
+
+    // --- Build rows; records that cannot be attributed fail now and retry later ---
+    const rows: Array<{ requestId: string; row: Record<string, unknown> }> = [];
+    for (const { requestId, payload } of due) {
+      if (!payload) continue;
+      const serviceId = services.ids.get(serviceKey(payload.provider, payload.model));
+      if (!serviceId) {
+        outbox.markFailed([requestId], `No AI service for ${payload.provider} / ${payload.model}`);
+        continue;
+      }
+      const projectId = resolveProjectId(payload);
+      if (!projectId) {
+        outbox.markFailed([requestId], `Unknown project ${payload.project || '(none)'}`);
         continue;
       }
 
-      const projectId = projects[0].id;
+      rows.push({
+        requestId,
+        row: {
+          request_id: requestId,
+          project_id: projectId,
+          ai_service_id: serviceId,
+          tokens_used: payload.totalTokens,
+          cost_in_cents: Math.round(payload.costUSD * 100),
+          timestamp: new Date(payload.timestamp).toISOString(),
+          request_details: payload.requestDetails,
+          response_details: payload.responseDetails,
+        },
+      });
+    }
 
-      const interaction = {
-        project_id: projectId,
-        ai_service_id: aiService.id,
-        tokens_used: log.totalTokens,
-        cost_in_cents: Math.round(log.costUSD * 100),
-        timestamp: new Date(log.timestamp).toISOString(),
-        request_details: log.userPrompt || '',
-        response_details: log.aiResponse || log.extractedCode || '',
-      };
+    // --- Upload in chunks, saving each record's outcome as we go ---
+    const { synced, offline } = await uploadRows(supabase, outbox, rows);
+    outbox.save();
 
-      interactions.push(interaction);
+    if (synced > 0) {
+      const state = loadSyncState();
+      saveSyncState({ ...state, lastSyncedAt: new Date().toISOString(), totalSynced: state.totalSynced + synced });
+      console.log(chalk.green(`Successfully synced ${synced} interactions.`));
     }
-
-    if (interactions.length === 0) {
-      console.log('No interactions to insert.');
-      return;
+    if (services.created.length + services.mapped.length + services.skipped.length > 0) {
+      console.log(
+        chalk.bold(
+          `AI services: ${services.created.length} created, ${services.mapped.length} mapped, ${services.skipped.length} skipped`
+        )
+      );
+      services.created.forEach(name => console.log(chalk.green(`  + ${name}`)));
+      services.mapped.forEach(name => console.log(chalk.cyan(`  → ${name}`)));
+      services.skipped.forEach(name => console.log(chalk.yellow(`  ✗ ${name}`)));
+    }
+    if (offline) {
+      console.warn(chalk.yellow('Supabase could not be reached; remaining interactions stay queued for the next sync.'));
     }
 
-    // Insert interactions
-    const { error: insertError } = await supabase
-      .from('interactions')
-      .insert(interactions);
-
-    if (insertError) {
-      console.error('Error syncing interactions:', insertError);
-    } else {
-      console.log(`Successfully synced ${interactions.length} interactions.`);
+    const summary = outbox.summary();
+    if (summary.failed > 0) {
+      console.warn(chalk.yellow(`${summary.failed} interaction(s) failed and will be retried with backoff:`));
+      Object.entries(summary.errors).forEach(([message, count]) => console.warn(chalk.yellow(`  ${count} × ${message}`)));
+      console.warn(chalk.gray('See `toknxr sync --status` for details.'));
     }
 
     if (options.clear) {
+      if (summary.pending > 0 || summary.failed > 0) {
+        console.log(chalk.yellow('Not clearing interactions.log while interactions are still waiting to sync.'));
+        return;
+      }
       fs.writeFileSync(logFilePath, '');
+      saveSyncState({ ...loadSyncState(), offset: 0, headHash: null });
       console.log(chalk.gray('Local interactions.log has been cleared.'));
     }
 }
+
+/**
+ * Print outbox counts for `toknxr sync --status`. Works offline and without logging in.
+ */
+export function showSyncStatus() {
+    const outbox = SyncOutbox.load();
+    const summary = outbox.summary();
+    const state = loadSyncState();
+
+    console.log(chalk.bold.blue('🔄 Sync Status'));
+    console.log(chalk.gray('━'.repeat(50)));
+    console.log(`  ${chalk.yellow('Pending:')} ${summary.pending}`);
+    console.log(`  ${chalk.red('Failed:')}  ${summary.failed}`);
+    console.log(`  ${chalk.green('Synced:')}  ${summary.synced}`);
+    if (state.lastSyncedAt) {
+      console.log(chalk.gray(`\n  Last successful sync: ${new Date(state.lastSyncedAt).toLocaleString()}`));
+    }
+    if (summary.oldestUnsyncedAt) {
+      console.log(chalk.gray(`  Oldest unsynced interaction queued: ${new Date(summary.oldestUnsyncedAt).toLocaleString()}`));
+    }
+    if (summary.nextRetryAt) {
+      console.log(chalk.gray(`  Next retry: ${new Date(summary.nextRetryAt).toLocaleString()}`));
+    }
+    if (summary.failed > 0) {
+      console.log(chalk.bold('\n  Failures:'));
+      Object.entries(summary.errors)
+        .sort(([, a], [, b]) => b - a)
+        .forEach(([message, count]) => console.log(chalk.red(`    ${count} × ${message}`)));
+    }
+
+    // Lines logged since the last sync are not in the outbox yet
+    const logFilePath = path.resolve(process.cwd(), 'interactions.log');
+    if (fs.existsSync(logFilePath) && fs.statSync(logFilePath).size > state.offset) {
+      console.log(chalk.gray(`\n  New interactions in interactions.log will be queued on the next ${chalk.cyan('toknxr sync')}.`));
+    }
+}